@@ -0,0 +1,201 @@
+// public/sw.js
+// Drains the IndexedDB payment outbox when connectivity returns, even if the
+// eventually-consistent-form page has been closed.
+//
+// NOTE: Mirrors the database layout in src/lib/tx-outbox.ts. Keep them in sync.
+
+const DB_NAME = 'bhumio-payments';
+const DB_VERSION = 2;
+const DEFAULT_CURRENCY = 'USD';
+const TX_STORE = 'transactions';
+const META_STORE = 'meta';
+const OUTBOX_SYNC_TAG = 'bhumio-tx-outbox';
+// Matches DEFAULT_RETRY_POLICY.attemptTimeoutMs in src/lib/retry-policy.ts
+const ATTEMPT_TIMEOUT_MS = 8000;
+
+// Same channel the page uses for cross-tab updates, so open tabs see our changes
+const channel = new BroadcastChannel('bhumio-tx-logs');
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+// --- Legacy Rows ---
+// Mirrors legacyAmountToMinor / upgradeLegacyRow in src/lib/tx-outbox.ts
+const legacyAmountToMinor = (amount) => {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match) return null;
+  const [, whole, fraction = ''] = match;
+  const cents = Number(whole + fraction.slice(0, 2).padEnd(2, '0'));
+  if (!Number.isSafeInteger(cents)) return null;
+  return cents + (fraction.charAt(2) >= '5' ? 1 : 0);
+};
+
+const upgradeLegacyRow = (row) => {
+  if (typeof row.amount === 'number' && row.currency) return row;
+  const amount = legacyAmountToMinor(String(row.amount));
+  return amount === null ? null : { ...row, amount, currency: DEFAULT_CURRENCY };
+};
+
+// --- IndexedDB helpers ---
+const openDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TX_STORE)) db.createObjectStore(TX_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      // v1 rows: decimal-string USD amounts become integer minor units
+      if (event.oldVersion === 1) {
+        const cursorRequest = request.transaction.objectStore(TX_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const upgraded = upgradeLegacyRow(cursor.value);
+          if (upgraded) {
+            cursor.update(upgraded);
+          } else {
+            console.warn('[SW] Dropping a v1 row with an unreadable amount', cursor.value);
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const getUnfinished = async (db) =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(TX_STORE).objectStore(TX_STORE).getAll();
+    request.onsuccess = () =>
+      resolve(request.result.filter((tx) => ['pending', 'retrying', 'rate_limited', 'unknown'].includes(tx.status)));
+    request.onerror = () => reject(request.error);
+  });
+
+const patch = (db, id, changes) =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(TX_STORE, 'readwrite');
+    const store = tx.objectStore(TX_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, ...changes });
+    };
+    tx.oncomplete = () => {
+      channel.postMessage({ kind: 'patch', id, changes });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+
+// Mirrors appendAttempt in src/lib/tx-outbox.ts
+const appendAttempt = (db, id, record) =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(TX_STORE, 'readwrite');
+    const store = tx.objectStore(TX_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, history: [...(request.result.history || []), record] });
+    };
+    tx.oncomplete = () => {
+      channel.postMessage({ kind: 'attempt', id, record });
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  });
+
+// --- Requests ---
+// Mirrors buildTransactionRequest in src/lib/tx-outbox.ts
+const buildRequest = (tx) =>
+  tx.kind === 'refund' || tx.kind === 'void'
+    ? { url: `/api/form-consistent/${tx.kind}`, body: { transactionId: tx.parentId, idempotencyKey: tx.id } }
+    : { url: '/api/form-consistent', body: { email: tx.email, amount: tx.amount, currency: tx.currency, idempotencyKey: tx.id } };
+
+// What a successful refund/void does to the charge it belongs to
+const PARENT_STATUS_AFTER = { refund: 'refunded', void: 'cancelled' };
+
+// --- Draining ---
+// One attempt per transaction per sync event. Retryable failures reject, which
+// tells the browser to fire the sync event again later with its own backoff.
+const sendTransaction = async (db, tx) => {
+  const attempts = (tx.attempts || 0) + 1;
+  await patch(db, tx.id, { attempts, nextAttemptAt: undefined });
+
+  let response;
+  const startedAt = Date.now();
+  const record = (fields) =>
+    appendAttempt(db, tx.id, { attempt: attempts, startedAt, durationMs: Date.now() - startedAt, source: 'worker', ...fields });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+  try {
+    const { url, body } = buildRequest(tx);
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch {
+    // Timed out or offline: the server may or may not have processed it
+    await record({ error: controller.signal.aborted ? `Timed out after ${ATTEMPT_TIMEOUT_MS}ms` : 'Network error' });
+    await patch(db, tx.id, { status: 'unknown' });
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const errorBody = response.ok ? null : await response.clone().json().catch(() => null);
+  await record({ httpStatus: response.status, error: response.ok ? undefined : (errorBody && errorBody.error) || `HTTP ${response.status}` });
+
+  if (response.ok) {
+    await patch(db, tx.id, { status: 'success' });
+    if (tx.parentId && PARENT_STATUS_AFTER[tx.kind]) {
+      await patch(db, tx.parentId, { status: PARENT_STATUS_AFTER[tx.kind] });
+    }
+  } else if (response.status === 422) {
+    const { error } = await response.json().catch(() => ({}));
+    await patch(db, tx.id, { status: 'conflict', mismatch: error });
+  } else if (response.status === 410) {
+    await patch(db, tx.id, { status: 'cancelled' });
+  } else if (response.status === 503 || response.status === 409) {
+    await patch(db, tx.id, { status: 'retrying' });
+    return false;
+  } else if (response.status === 429) {
+    await patch(db, tx.id, { status: 'rate_limited' });
+    return false;
+  } else {
+    await patch(db, tx.id, { status: 'error' });
+  }
+  return true;
+};
+
+// Same lock name the page uses, so an open tab and the worker never drive the
+// same transaction at once. A transaction locked elsewhere counts as handled.
+const withTransactionLock = (id, task) =>
+  self.navigator.locks
+    ? self.navigator.locks.request(`bhumio-tx:${id}`, { ifAvailable: true }, (lock) => (lock ? task() : true))
+    : task();
+
+const drainOutbox = async () => {
+  const db = await openDatabase();
+  const unfinished = await getUnfinished(db);
+  let allSettled = true;
+
+  for (const tx of unfinished) {
+    const settled = await withTransactionLock(tx.id, () => sendTransaction(db, tx));
+    if (!settled) allSettled = false;
+  }
+
+  if (!allSettled) throw new Error('Some transactions are still pending');
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(drainOutbox());
+  }
+});
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ChaosConfigView, ChaosProfileName, ChaosRoute, ChaosSettings } from '@/lib/chaos';
+
+// --- CONFIG ---
+const PROFILES: ChaosProfileName[] = ['calm', 'flaky', 'hostile'];
+
+interface FieldConfig {
+  key: keyof ChaosSettings;
+  label: string;
+  unit: '%' | 'ms';
+}
+
+// Only the knobs each route actually reads
+const ROUTE_FIELDS: Record<ChaosRoute, { title: string; fields: FieldConfig[] }> = {
+  'form-consistent': {
+    title: '/api/form-consistent',
+    fields: [
+      { key: 'unavailableRate', label: '503 Rate', unit: '%' },
+      { key: 'delayRate', label: 'Delay Rate', unit: '%' },
+      { key: 'delayMinMs', label: 'Delay Min', unit: 'ms' },
+      { key: 'delayMaxMs', label: 'Delay Max', unit: 'ms' },
+    ],
+  },
+  quirky: {
+    title: '/api/quirky',
+    fields: [
+      { key: 'unavailableRate', label: '503 Rate', unit: '%' },
+      { key: 'delayRate', label: 'Delay Rate', unit: '%' },
+      { key: 'delayMinMs', label: 'Delay Min', unit: 'ms' },
+      { key: 'delayMaxMs', label: 'Delay Max', unit: 'ms' },
+      { key: 'shortPageRate', label: 'Short Page Rate', unit: '%' },
+      { key: 'overlapRate', label: 'Overlap Rate', unit: '%' },
+    ],
+  },
+  events: {
+    title: '/api/events',
+    fields: [
+      { key: 'reorderRate', label: 'Reorder Rate', unit: '%' },
+      { key: 'duplicateRate', label: 'Duplicate Rate', unit: '%' },
+      { key: 'disconnectRate', label: 'Disconnect Rate', unit: '%' },
+      { key: 'regressionRate', label: 'Regression Rate', unit: '%' },
+      { key: 'delayRate', label: 'Delay Rate', unit: '%' },
+      { key: 'delayMinMs', label: 'Delay Min', unit: 'ms' },
+      { key: 'delayMaxMs', label: 'Delay Max', unit: 'ms' },
+    ],
+  },
+};
+
+// Rates are stored as 0-1 but edited as percentages
+const toInput = (value: number, unit: FieldConfig['unit']) =>
+  unit === '%' ? String(Math.round(value * 100)) : String(value);
+const fromInput = (value: string, unit: FieldConfig['unit']) =>
+  unit === '%' ? Number(value) / 100 : Number(value);
+
+type Drafts = Record<ChaosRoute, Partial<Record<keyof ChaosSettings, string>>>;
+
+const toDrafts = (config: ChaosConfigView): Drafts => {
+  const drafts = {} as Drafts;
+  (Object.keys(ROUTE_FIELDS) as ChaosRoute[]).forEach((route) => {
+    drafts[route] = {};
+    ROUTE_FIELDS[route].fields.forEach(({ key, unit }) => {
+      drafts[route][key] = toInput(config.routes[route][key], unit);
+    });
+  });
+  return drafts;
+};
+
+// --- COMPONENT ---
+const ChaosPage = () => {
+  const [config, setConfig] = useState<ChaosConfigView | null>(null);
+  const [drafts, setDrafts] = useState<Drafts | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [status, setStatus] = useState<'loading' | 'idle' | 'saving' | 'saved' | 'error'>('loading');
+
+  const applyConfig = (next: ChaosConfigView) => {
+    setConfig(next);
+    setDrafts(toDrafts(next));
+    setFieldErrors({});
+  };
+
+  // --- 1. LOAD ---
+  const loadConfig = useCallback(async () => {
+    setStatus('loading');
+    try {
+      const res = await fetch('/api/chaos');
+      if (!res.ok) throw new Error(`Server Error: ${res.status}`);
+      applyConfig(await res.json());
+      setStatus('idle');
+    } catch (err) {
+      console.error(err);
+      setStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  // --- 2. SEND ---
+  const send = async (method: 'PUT' | 'DELETE', body?: unknown) => {
+    setStatus('saving');
+    try {
+      const res = await fetch('/api/chaos', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await res.json();
+
+      if (res.status === 400) {
+        setFieldErrors(data.fields ?? {});
+        setStatus('idle');
+        return;
+      }
+      if (!res.ok) throw new Error(`Server Error: ${res.status}`);
+
+      applyConfig(data);
+      setStatus('saved');
+    } catch (err) {
+      console.error(err);
+      setStatus('error');
+    }
+  };
+
+  // Picking a profile applies its presets straight away
+  const selectProfile = (profile: ChaosProfileName) => send('PUT', { profile });
+
+  const saveOverrides = () => {
+    if (!drafts) return;
+    const overrides: Partial<Record<ChaosRoute, Partial<ChaosSettings>>> = {};
+    (Object.keys(ROUTE_FIELDS) as ChaosRoute[]).forEach((route) => {
+      overrides[route] = {};
+      ROUTE_FIELDS[route].fields.forEach(({ key, unit }) => {
+        overrides[route]![key] = fromInput(drafts[route][key] ?? '', unit);
+      });
+    });
+    send('PUT', { overrides });
+  };
+
+  const handleChange = (route: ChaosRoute, key: keyof ChaosSettings, value: string) => {
+    setDrafts((prev) => (prev ? { ...prev, [route]: { ...prev[route], [key]: value } } : prev));
+    setStatus('idle');
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-[#FDFCF5] text-black font-sans p-8 flex flex-col items-center">
+      <header className="mb-8 text-center">
+        <h1 className="text-3xl font-light tracking-tighter lowercase">Chaos Control.</h1>
+        <p className="mt-2 text-xs text-gray-500 font-mono">
+          Runtime Fault Injection for Mock APIs
+        </p>
+      </header>
+
+      {status === 'loading' && !config && (
+        <div className="py-8 text-center animate-pulse">
+          <span className="font-mono text-xs uppercase tracking-widest bg-gray-200 px-4 py-2">Loading...</span>
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="text-center py-4 text-red-600 text-sm">
+          Error talking to the chaos API. <button onClick={loadConfig} className="underline font-bold">Retry</button>
+        </div>
+      )}
+
+      {config && drafts && (
+        <div className="w-full max-w-2xl space-y-8">
+          {/* PROFILE */}
+          <div className="bg-white border border-black p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,0.1)]">
+            <label className="text-xs font-mono font-bold uppercase tracking-widest mb-2 block">
+              Default Profile
+            </label>
+            <div className="flex gap-2">
+              {PROFILES.map((profile) => (
+                <button
+                  key={profile}
+                  onClick={() => selectProfile(profile)}
+                  className={`flex-1 py-2 text-xs font-mono uppercase border transition-all ${
+                    config.profile === profile
+                      ? 'bg-black text-white border-black'
+                      : 'bg-transparent text-gray-400 border-gray-200 hover:border-black'
+                  }`}
+                >
+                  {profile}
+                </button>
+              ))}
+            </div>
+            {fieldErrors.profile && (
+              <p className="mt-2 text-[10px] font-mono text-red-600">{fieldErrors.profile}</p>
+            )}
+          </div>
+
+          {/* PER-ROUTE SETTINGS */}
+          {(Object.keys(ROUTE_FIELDS) as ChaosRoute[]).map((route) => (
+            <div key={route} className="space-y-4">
+              <div className="flex items-center justify-between border-b border-black pb-2">
+                <h2 className="font-mono text-xs uppercase tracking-widest opacity-50">{ROUTE_FIELDS[route].title}</h2>
+                {config.overrides[route] && Object.keys(config.overrides[route]!).length > 0 && (
+                  <span className="text-[10px] font-mono bg-black text-white px-2 py-1 uppercase">Overridden</span>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {ROUTE_FIELDS[route].fields.map(({ key, label, unit }) => {
+                  const error = fieldErrors[`${route}.${key}`];
+                  return (
+                    <div key={key}>
+                      <label className="block text-xs font-mono mb-1 opacity-60 uppercase">
+                        {label} ({unit})
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max={unit === '%' ? 100 : undefined}
+                        value={drafts[route][key] ?? ''}
+                        onChange={(e) => handleChange(route, key, e.target.value)}
+                        className={`w-full bg-white border p-2 font-mono text-sm outline-none ${
+                          error ? 'border-red-500 text-red-600' : 'border-black focus:shadow-[4px_4px_0px_0px_rgba(0,0,0,0.2)]'
+                        }`}
+                      />
+                      <div className="h-4 mt-1 text-[10px] font-mono text-red-600">{error}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {/* ACTIONS */}
+          <div className="flex gap-4">
+            <button
+              onClick={saveOverrides}
+              disabled={status === 'saving'}
+              className="flex-1 bg-black text-[#FDFCF5] py-4 font-medium hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,0.2)] hover:-translate-y-1 transition-all disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              {status === 'saving' ? 'Applying...' : 'Apply Changes'}
+            </button>
+            <button
+              onClick={() => send('DELETE')}
+              disabled={status === 'saving'}
+              className="border border-black px-6 py-4 font-medium hover:bg-black hover:text-[#FDFCF5] transition-all"
+            >
+              Reset to Defaults
+            </button>
+          </div>
+
+          {status === 'saved' && (
+            <div className="bg-green-50 border-l-4 border-green-500 p-3 text-xs font-mono text-green-800">
+              Applied. New requests use these settings.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChaosPage;
@@ -1,139 +1,314 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
+import type { LedgerEntry, LedgerPage } from '@/lib/ledger';
+import { CURRENCIES, CURRENCY_CODES, CurrencyCode, DEFAULT_CURRENCY, formatMoney, toMinorUnits } from '@/lib/money';
+import { DEFAULT_RETRY_POLICY } from '@/lib/retry-policy';
+import {
+  buildTransactionRequest,
+  registerOutboxWorker,
+  requestOutboxSync,
+  Transaction,
+  TransactionKind,
+  TransactionStatus,
+  transactionStore,
+} from '@/lib/tx-outbox';
+import {
+  AttemptOutcome,
+  AttemptRecord,
+  classifyResponse,
+  isUnfinishedStatus,
+  readResponseError,
+  useResilientMutation,
+} from '@/lib/use-resilient-mutation';
+import {
+  exportTransactionsCsv,
+  exportTransactionsJson,
+  mergeImportedTransactions,
+  parseTransactionImport,
+} from '@/lib/tx-export';
 
 // --- Type Definitions ---
-type TransactionStatus = 'pending' | 'retrying' | 'success' | 'error';
 
-interface Transaction {
-  id: string; // Idempotency key
-  email: string;
-  amount: string; 
-  status: TransactionStatus;
-  timestamp: number; // Added to sort by date if needed
-}
+// Shape returned by GET /api/form-consistent/[id]
+type TransactionLookup =
+  | { id: string; status: 'processed'; email: string; amount: number; currency: CurrencyCode; date: string; refundId?: string }
+  | { id: string; status: 'voided'; voidId: string }
+  | { id: string; status: 'in_progress' | 'unknown' };
+
+// Rows that still need to reach the server. 'unknown' is included because a
+// retry with the same key is the only way to learn what really happened.
+const isUnfinished = (tx: Transaction) => isUnfinishedStatus(tx.status);
+
+const isOperation = (tx: Transaction) => tx.kind === 'refund' || tx.kind === 'void';
+
+const OPERATION_LABELS: Record<'refund' | 'void', string> = {
+  refund: 'Refund',
+  void: 'Cancellation',
+};
+
+// What a successful refund/void does to the charge it belongs to
+const PARENT_STATUS_AFTER: Record<'refund' | 'void', TransactionStatus> = {
+  refund: 'refunded',
+  void: 'cancelled',
+};
+
+// Hands a generated file to the browser as a download
+const downloadFile = (contents: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 const Page = () => {
   const [email, setEmail] = useState<string>('');
   const [amount, setAmount] = useState<string>('');
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  
-  // Ref to track if we have loaded from storage yet (prevents overwriting LS with empty array on init)
-  const isLoaded = useRef(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [amountError, setAmountError] = useState<string | null>(null);
+  // Row whose attempt timeline is open
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Outcome of the last import, shown under the log header
+  const [importResult, setImportResult] = useState<{ message: string; errors?: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // --- EFFECT 1: Load from LocalStorage & Resume Pending ---
-  useEffect(() => {
-    const savedLogs = localStorage.getItem('bhumio-tx-logs');
-    if (savedLogs) {
-      try {
-        const parsedLogs: Transaction[] = JSON.parse(savedLogs);
-        setTransactions(parsedLogs);
-        
-        // RESUME LOGIC: Check for 'pending' or 'retrying' items and restart them
-        // This ensures eventual consistency even if the user quits the browser
-        parsedLogs.forEach(tx => {
-          if (tx.status === 'pending' || tx.status === 'retrying') {
-            console.log(`[Resume] Restarting transaction ${tx.id}`);
-            processTransaction(tx, 1);
-          }
-        });
-      } catch (e) {
-        console.error("Failed to parse logs", e);
+  // --- OUTBOX: Persistence, Retries, Cross-Tab Sync & Resume ---
+  // The hook drives each row; this page only decides what a response means.
+  // Every open tab resumes on mount, but the per-row lock (shared with the
+  // service worker) lets only one of them drive each transaction.
+  const outbox = useResilientMutation<Transaction>({
+    store: transactionStore,
+    channelName: 'bhumio-tx-logs',
+    lockPrefix: 'bhumio-tx',
+    send: (tx, { signal }) => sendTransaction(tx, signal),
+    // Failed rows are checked too: the server may have processed them after all
+    shouldResume: (tx) => isUnfinished(tx) || tx.status === 'error',
+    resume: (tx) => reconcileTransaction(tx),
+    onSettled: (tx, changes) => {
+      // A successful refund/void moves its charge along with it
+      if (changes.status === 'success' && (tx.kind === 'refund' || tx.kind === 'void') && tx.parentId) {
+        outbox.update(tx.parentId, { status: PARENT_STATUS_AFTER[tx.kind] });
       }
-    }
-    isLoaded.current = true;
-  }, []);
+    },
+    // If the page closes before the retry fires, the worker takes over
+    onRetryScheduled: () => {
+      requestOutboxSync();
+    },
+  });
+  const { isLoaded } = outbox;
+  // Imports and other tabs can add rows anywhere in time; keep newest first
+  const transactions = [...outbox.records].sort((a, b) => b.timestamp - a.timestamp);
 
-  // --- EFFECT 2: Save to LocalStorage ---
+  // --- EFFECT: Background Worker ---
+  // The worker finishes pending payments if this page is closed
   useEffect(() => {
-    // Only save if we have finished the initial load
-    if (isLoaded.current) {
-      localStorage.setItem('bhumio-tx-logs', JSON.stringify(transactions));
-    }
-  }, [transactions]);
+    registerOutboxWorker();
+  }, []);
 
   // --- HANDLER: Submit ---
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!email || !amount) return;
 
-    const idempotencyKey = crypto.randomUUID();
+    // Converted to minor units here, once; nothing downstream touches floats
+    const amountMinor = toMinorUnits(amount, currency);
+    if (amountMinor === null) {
+      const digits = CURRENCIES[currency];
+      setAmountError(
+        digits === 0
+          ? `${currency} amounts can't have decimals`
+          : `Enter a non-negative amount with at most ${digits} decimal places`
+      );
+      return;
+    }
 
-    const newTransaction: Transaction = {
+    setEmail('');
+    setAmount('');
+    await startTransaction((idempotencyKey) => ({
       id: idempotencyKey,
+      kind: 'charge',
       email,
-      amount,
+      amount: amountMinor,
+      currency,
+      status: 'pending',
+      timestamp: Date.now(),
+    }));
+  };
+
+  // --- HANDLER: Cancel / Refund ---
+  // Each action is a new row with its own idempotency key, linked to the charge
+  const startOperation = (parent: Transaction, kind: Exclude<TransactionKind, 'charge'>) => {
+    startTransaction((idempotencyKey) => ({
+      id: idempotencyKey,
+      kind,
+      parentId: parent.id,
+      email: parent.email,
+      amount: parent.amount,
+      currency: parent.currency,
       status: 'pending',
       timestamp: Date.now(),
-    };
+    }));
+  };
 
-    // Update UI immediately (Optimistic)
-    setTransactions((prev) => [newTransaction, ...prev]);
-    setEmail('');
-    setAmount('');
+  // The row shows up immediately (optimistic) and is in the outbox before any
+  // network call, so the payment survives the tab closing mid-request
+  const startTransaction = async (build: (idempotencyKey: string) => Transaction) => {
+    await outbox.submit(build);
+    requestOutboxSync();
+  };
 
-    // Start network process
-    processTransaction(newTransaction);
+  // --- HANDLER: Retry Now ---
+  // Starts a fresh round of attempts for a failed row. Same idempotency key, so
+  // if an earlier attempt did go through the server just replays its result.
+  const retryNow = (tx: Transaction) => {
+    outbox.retry(tx);
+    requestOutboxSync();
   };
 
   // --- HANDLER: Clear Logs ---
   const clearLogs = () => {
     if(confirm('Clear all local logs?')) {
-      setTransactions([]);
-      localStorage.removeItem('bhumio-tx-logs');
+      outbox.clear();
     }
   };
 
-  // --- LOGIC: Recursive Retry ---
-  // Note: We don't define this inside useEffect so we can call it from the Submit handler AND the Resume logic
-  const processTransaction = async (tx: Transaction, attempt = 1) => {
-    const MAX_RETRIES = 5;
-    const RETRY_DELAY = 2000; 
+  // --- HANDLER: Export / Import ---
+  const exportLog = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadFile(exportTransactionsJson(transactions), `bhumio-tx-logs-${stamp}.json`, 'application/json');
+    } else {
+      downloadFile(exportTransactionsCsv(transactions), `bhumio-tx-logs-${stamp}.csv`, 'text/csv');
+    }
+  };
 
-    // Update status to 'retrying' if attempting more than once
-    if (attempt > 1) {
-      updateTransactionStatus(tx.id, 'retrying');
+  const importLog = async (file: File) => {
+    const parsed = parseTransactionImport(await file.text());
+    if (parsed.errors) {
+      setImportResult({ message: `Import rejected: ${file.name}`, errors: parsed.errors });
+      return;
     }
 
+    const changed = mergeImportedTransactions(transactions, parsed.transactions);
     try {
-      // Pass the SAME idempotency key. 
-      // If the API has seen it, it returns the previous success.
-      // If the API hasn't, it processes it.
-      const response = await fetch('/api/form-consistent', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          email: tx.email,
-          amount: parseFloat(tx.amount),
-          idempotencyKey: tx.id,
-        }),
-      });
-
-      if (response.status === 503) {
-        throw new Error('Service Unavailable');
-      }
+      await outbox.upsert(changed);
+    } catch (err) {
+      console.error('[Outbox] Failed to save imported rows', err);
+      setImportResult({ message: 'Import failed: could not write to the outbox' });
+      return;
+    }
 
-      if (response.ok) {
-        updateTransactionStatus(tx.id, 'success');
-      } else {
-        // Hard failure (400, 500)
-        updateTransactionStatus(tx.id, 'error');
-      }
-    } catch {
-      if (attempt < MAX_RETRIES) {
-        console.log(`[${tx.id}] Attempt ${attempt} failed. Retrying in ${RETRY_DELAY}ms...`);
-        setTimeout(() => processTransaction(tx, attempt + 1), RETRY_DELAY);
-      } else {
-        console.error(`[${tx.id}] Failed after ${MAX_RETRIES} attempts.`);
-        updateTransactionStatus(tx.id, 'error');
+    setImportResult({
+      message: `Imported ${parsed.transactions.length} row(s) from ${file.name}: ${changed.length} new or updated`,
+    });
+
+    // Imported rows that never settled pick up where they left off, through
+    // the same lookup-first path as a page reload
+    const unfinished = changed.filter(isUnfinished);
+    if (unfinished.length > 0) requestOutboxSync();
+    outbox.resume(unfinished);
+  };
+
+  // --- LOGIC: Reconcile on Resume ---
+  // Asks the server what it knows about the key first. A transaction that was
+  // processed while we weren't looking is marked done without re-POSTing.
+  // Resolves once the transaction has settled, so the caller's lock is held
+  // for the whole run.
+  const reconcileTransaction = async (tx: Transaction) => {
+    // The lookup endpoint only knows charges. Refunds and voids are simply
+    // re-sent; their idempotency key makes that safe.
+    if (isOperation(tx)) {
+      if (isUnfinished(tx)) await outbox.execute(tx, 1);
+      return;
+    }
+
+    let lookup: TransactionLookup;
+    try {
+      const response = await fetch(`/api/form-consistent/${encodeURIComponent(tx.id)}`);
+      if (!response.ok) throw new Error(`Lookup failed: ${response.status}`);
+      lookup = await response.json();
+    } catch (e) {
+      // Can't reach the server: fall back to a plain resume. The idempotency
+      // key still protects us from a double charge.
+      console.warn(`[Resume] Could not look up ${tx.id}`, e);
+      if (isUnfinished(tx)) await outbox.execute(tx, 1);
+      return;
+    }
+
+    if (lookup.status === 'voided') {
+      console.log(`[Resume] ${tx.id} was cancelled by ${lookup.voidId}`);
+      updateTransactionStatus(tx.id, 'cancelled');
+      return;
+    }
+
+    if (lookup.status === 'processed') {
+      // Integer minor units compare exactly, no rounding needed
+      if (lookup.email !== tx.email || lookup.amount !== tx.amount || lookup.currency !== tx.currency) {
+        console.warn(`[Resume] Server record for ${tx.id} disagrees with local log`);
+        updateTransaction(tx.id, {
+          status: 'conflict',
+          mismatch: `Server has ${lookup.email} / ${formatMoney(lookup.amount, lookup.currency)}`,
+        });
+        return;
       }
+
+      console.log(`[Resume] ${tx.id} was already processed by the server`);
+      updateTransactionStatus(tx.id, lookup.refundId ? 'refunded' : 'success');
+      return;
+    }
+
+    // 'in_progress' or 'unknown': only unfinished rows are re-sent. A failed
+    // row stays failed; the server confirmed it never went through.
+    if (isUnfinished(tx)) {
+      console.log(`[Resume] Restarting transaction ${tx.id}`);
+      await outbox.execute(tx, 1);
+    }
+  };
+
+  // --- LOGIC: One Attempt ---
+  // Called by the outbox for every attempt, with the same idempotency key each
+  // time. If the API has seen it, it returns the previous success; if it
+  // hasn't, it processes it. Retries, timeouts and backoff live in the hook.
+  const sendTransaction = async (tx: Transaction, signal: AbortSignal): Promise<AttemptOutcome<Transaction>> => {
+    const { url, body } = buildTransactionRequest(tx);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    // 2xx, 503 / 429 (retry after Retry-After) and 409 (still in flight)
+    const common = await classifyResponse<Transaction>(response);
+    if (common) return common;
+
+    const httpStatus = response.status;
+    const error = await readResponseError(response);
+
+    // 422: The server already processed this key with a different body, or
+    // (for refunds/voids) the charge is in a state that forbids it.
+    // Retrying can never succeed, so this is terminal.
+    if (httpStatus === 422) {
+      return { type: 'settle', httpStatus, error, changes: { status: 'conflict', mismatch: error } };
+    }
+
+    // 410: The charge was voided before the server processed it
+    if (httpStatus === 410) {
+      return { type: 'settle', httpStatus, error, changes: { status: 'cancelled' } };
     }
+
+    // Hard failure (400, 500)
+    return { type: 'settle', httpStatus, error, changes: { status: 'error' } };
+  };
+
+  const updateTransaction = (id: string, changes: Partial<Transaction>) => {
+    outbox.update(id, changes);
   };
 
   const updateTransactionStatus = (id: string, status: TransactionStatus) => {
-    setTransactions((prev) =>
-      prev.map((t) => (t.id === id ? { ...t, status } : t))
-    );
+    updateTransaction(id, { status });
   };
 
   // --- RENDER ---
@@ -165,18 +340,39 @@ const Page = () => {
               />
             </div>
             <div>
-              <label htmlFor="amount" className="block text-xs font-mono mb-2 opacity-60">AMOUNT (USD)</label>
-              <input
-                id="amount"
-                type="number"
-                required
-                step="0.01"
-                min="0"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="w-full bg-transparent border border-black p-4 text-lg focus:outline-none focus:bg-black focus:text-[#FDFCF5] transition-colors placeholder:text-gray-400"
-                placeholder="0.00"
-              />
+              <label htmlFor="amount" className="block text-xs font-mono mb-2 opacity-60">AMOUNT ({currency})</label>
+              <div className="flex">
+                <input
+                  id="amount"
+                  type="number"
+                  required
+                  step={1 / 10 ** CURRENCIES[currency]}
+                  min="0"
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    setAmountError(null);
+                  }}
+                  className={`flex-1 min-w-0 bg-transparent border border-r-0 p-4 text-lg focus:outline-none focus:bg-black focus:text-[#FDFCF5] transition-colors placeholder:text-gray-400 ${
+                    amountError ? 'border-red-500' : 'border-black'
+                  }`}
+                  placeholder={CURRENCIES[currency] > 0 ? `0.${'0'.repeat(CURRENCIES[currency])}` : '0'}
+                />
+                <select
+                  aria-label="Currency"
+                  value={currency}
+                  onChange={(e) => {
+                    setCurrency(e.target.value as CurrencyCode);
+                    setAmountError(null);
+                  }}
+                  className="bg-transparent border border-black px-3 font-mono text-sm focus:outline-none"
+                >
+                  {CURRENCY_CODES.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+              {amountError && <p className="mt-1 text-[10px] font-mono text-red-600">{amountError}</p>}
             </div>
           <button
             type="submit"
@@ -191,62 +387,370 @@ const Page = () => {
         {/* LOGS HEADER */}
         <div className="flex justify-between items-end">
           <h3 className="text-sm font-mono opacity-50 uppercase tracking-widest">Transaction Log</h3>
-          {transactions.length > 0 && (
-            <button 
-              onClick={clearLogs}
+          <div className="flex gap-3">
+            {transactions.length > 0 && (
+              <>
+                <button
+                  onClick={() => exportLog('json')}
+                  className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+                >
+                  EXPORT JSON
+                </button>
+                <button
+                  onClick={() => exportLog('csv')}
+                  className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+                >
+                  EXPORT CSV
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => importInputRef.current?.click()}
               className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
             >
-              CLEAR HISTORY
+              IMPORT
             </button>
-          )}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importLog(file);
+                e.target.value = '';
+              }}
+            />
+            {transactions.length > 0 && (
+              <button 
+                onClick={clearLogs}
+                className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+              >
+                CLEAR HISTORY
+              </button>
+            )}
+          </div>
         </div>
 
+        {importResult && (
+          <div className={`border-l-4 p-3 text-xs font-mono ${importResult.errors ? 'bg-red-50 border-red-500 text-red-800' : 'bg-green-50 border-green-500 text-green-800'}`}>
+            <div className="flex justify-between gap-2">
+              <span>{importResult.message}</span>
+              <button onClick={() => setImportResult(null)} className="underline hover:no-underline">DISMISS</button>
+            </div>
+            {importResult.errors && (
+              <ul className="mt-2 space-y-1 text-[10px] max-h-32 overflow-y-auto">
+                {importResult.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* LOGS LIST */}
         <div className="space-y-4">
-          {!isLoaded.current ? (
+          {!isLoaded ? (
             <p className="text-center text-gray-400 text-sm py-4">Loading history...</p>
           ) : transactions.length === 0 ? (
              <p className="text-center text-gray-400 italic text-sm py-4">No transactions yet.</p>
           ) : (
-            transactions.map((tx) => (
-              <div key={tx.id} className="group w-full border border-black/20 p-4 transition-all">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h2 className="text-md font-medium">{tx.email}</h2>
-                    <p className="font-mono text-xs text-gray-500">${parseFloat(tx.amount).toFixed(2)}</p>
+            transactions.filter((tx) => !isOperation(tx)).map((tx) => {
+              // Refunds/voids are shown inside the charge they belong to
+              const operations = transactions.filter((op) => op.parentId === tx.id);
+              // A failed or rejected action can be tried again with a new key
+              const hasLiveOperation = operations.some((op) => op.status !== 'error' && op.status !== 'conflict');
+              const canCancel = isUnfinished(tx) && !hasLiveOperation;
+              const canRefund = tx.status === 'success' && !hasLiveOperation;
+              const attemptCount = [tx, ...operations].reduce((n, row) => n + (row.history?.length ?? 0), 0);
+
+              return (
+                <div key={tx.id} className="group w-full border border-black/20 p-4 transition-all">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-md font-medium">{tx.email}</h2>
+                      <p className="font-mono text-xs text-gray-500">{formatMoney(tx.amount, tx.currency)}</p>
+                      {tx.attempts !== undefined && (
+                        <p className="font-mono text-[10px] text-gray-400">
+                          ATTEMPT {tx.attempts}/{DEFAULT_RETRY_POLICY.maxAttempts}
+                          {(tx.status === 'retrying' || tx.status === 'rate_limited' || tx.status === 'unknown') && tx.nextAttemptAt && (
+                            <> · NEXT AT {new Date(tx.nextAttemptAt).toLocaleTimeString()}</>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    <StatusBadge status={tx.status} />
+                  </div>
+                  {tx.mismatch && (
+                    <p className="mt-2 text-[10px] font-mono text-orange-800">
+                      CONFLICT: {tx.mismatch}
+                    </p>
+                  )}
+
+                  {/* ACTIONS (Cancel / Refund) */}
+                  {operations.map((op) => (
+                    <div key={op.id} className="mt-2 pt-2 border-t border-dashed border-gray-300 flex items-center justify-between">
+                      <div className="font-mono text-[10px] text-gray-500">
+                        {OPERATION_LABELS[op.kind as 'refund' | 'void'].toUpperCase()}
+                        {op.attempts !== undefined && <> · ATTEMPT {op.attempts}/{DEFAULT_RETRY_POLICY.maxAttempts}</>}
+                        {op.mismatch && <span className="block text-orange-800">{op.mismatch}</span>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {op.status === 'error' && (
+                          <button
+                            onClick={() => retryNow(op)}
+                            className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+                          >
+                            RETRY NOW
+                          </button>
+                        )}
+                        <StatusBadge status={op.status} />
+                      </div>
+                    </div>
+                  ))}
+                  <div className="mt-2 flex justify-end gap-4">
+                    {attemptCount > 0 && (
+                      <button
+                        onClick={() => setExpandedId(expandedId === tx.id ? null : tx.id)}
+                        className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100 mr-auto"
+                      >
+                        {expandedId === tx.id ? 'HIDE TIMELINE' : `TIMELINE (${attemptCount})`}
+                      </button>
+                    )}
+                    {tx.status === 'error' && (
+                      <button
+                        onClick={() => retryNow(tx)}
+                        className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+                      >
+                        RETRY NOW
+                      </button>
+                    )}
+                    {(canCancel || canRefund) && (
+                      <button
+                        onClick={() => startOperation(tx, canCancel ? 'void' : 'refund')}
+                        className="text-[10px] font-mono underline hover:no-underline opacity-60 hover:opacity-100"
+                      >
+                        {canCancel ? 'CANCEL PAYMENT' : 'REFUND'}
+                      </button>
+                    )}
+                  </div>
+                  {expandedId === tx.id && (
+                    <AttemptTimeline
+                      history={[tx, ...operations].flatMap((row) => {
+                        const label = isOperation(row) ? OPERATION_LABELS[row.kind as 'refund' | 'void'] : 'Charge';
+                        return (row.history ?? []).map((record) => ({ ...record, label }));
+                      })}
+                    />
+                  )}
+                  <div className="max-h-0 overflow-hidden group-hover:max-h-16 opacity-0 group-hover:opacity-100 transition-all duration-300">
+                    <p className="mt-2 text-[10px] font-mono text-gray-400 pt-2 border-t border-dashed border-gray-300">
+                      ID: {tx.id}<br/>
+                      TIME: {new Date(tx.timestamp).toLocaleTimeString()}
+                    </p>
                   </div>
-                  <StatusBadge status={tx.status} />
-                </div>
-                <div className="max-h-0 overflow-hidden group-hover:max-h-16 opacity-0 group-hover:opacity-100 transition-all duration-300">
-                  <p className="mt-2 text-[10px] font-mono text-gray-400 pt-2 border-t border-dashed border-gray-300">
-                    ID: {tx.id}<br/>
-                    TIME: {new Date(tx.timestamp).toLocaleTimeString()}
-                  </p>
                 </div>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
 
+        <div className="h-px w-full bg-black opacity-10"></div>
+
+        {/* SERVER LEDGER */}
+        <ServerLedger transactions={transactions.filter((tx) => !isOperation(tx))} />
+
+      </div>
+    </div>
+  );
+};
+
+// --- Subcomponents ---
+// Every POST made for a charge and its refund/void, in the order they started
+const AttemptTimeline = ({ history }: { history: (AttemptRecord & { label: string })[] }) => (
+  <ol className="mt-2 pt-2 border-t border-dashed border-gray-300 space-y-1">
+    {[...history]
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .map((record, index) => {
+        const ok = record.httpStatus !== undefined && record.httpStatus < 400;
+        return (
+          <li key={`${record.startedAt}-${index}`} className="flex gap-2 font-mono text-[10px]">
+            <span className={`w-2 h-2 mt-1 shrink-0 ${ok ? 'bg-black' : record.httpStatus ? 'bg-red-500' : 'border border-black'}`} />
+            <span className="text-gray-500">
+              {new Date(record.startedAt).toLocaleTimeString()} · {record.label.toUpperCase()} #{record.attempt}
+              {record.source === 'worker' && ' (WORKER)'} · {record.durationMs}ms ·{' '}
+              <span className={ok ? 'text-black' : 'text-red-700'}>
+                {record.httpStatus ?? 'NO RESPONSE'}
+                {record.error && ` ${record.error}`}
+              </span>
+            </span>
+          </li>
+        );
+      })}
+  </ol>
+);
+
+// Side-by-side check of the local log against what the server actually
+// recorded. Rows missing on either side are what needs a closer look.
+type LedgerSide = 'both' | 'local' | 'server';
+
+interface LedgerRow {
+  id: string;
+  side: LedgerSide;
+  email: string;
+  amount: number;
+  currency: CurrencyCode;
+  local?: Transaction;
+  server?: LedgerEntry;
+}
+
+const LEDGER_PAGE_SIZE = 100;
+
+const SIDE_STYLES: Record<LedgerSide, { label: string; className: string }> = {
+  both: { label: 'Both', className: 'border-black/20' },
+  local: { label: 'Local Only', className: 'border-orange-400 bg-orange-50' },
+  server: { label: 'Server Only', className: 'border-red-400 bg-red-50' },
+};
+
+const fetchLedger = async (email: string): Promise<LedgerEntry[]> => {
+  const entries: LedgerEntry[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams({ limit: String(LEDGER_PAGE_SIZE) });
+    if (email) params.set('email', email);
+    if (cursor) params.set('cursor', cursor);
+
+    const res = await fetch(`/api/form-consistent?${params}`);
+    if (!res.ok) throw new Error(`Server Error: ${res.status}`);
+    const page: LedgerPage = await res.json();
+    entries.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return entries;
+};
+
+const compareLedger = (local: Transaction[], server: LedgerEntry[]): LedgerRow[] => {
+  const serverById = new Map(server.map((entry) => [entry.id, entry]));
+  const localIds = new Set(local.map((tx) => tx.id));
+
+  const rows: LedgerRow[] = local.map((tx) => {
+    const entry = serverById.get(tx.id);
+    return { id: tx.id, side: entry ? 'both' : 'local', email: tx.email, amount: tx.amount, currency: tx.currency, local: tx, server: entry };
+  });
+  server
+    .filter((entry) => !localIds.has(entry.id))
+    .forEach((entry) => rows.push({ id: entry.id, side: 'server', email: entry.email, amount: entry.amount, currency: entry.currency, server: entry }));
+
+  // Discrepancies first, then the matched rows
+  const order: Record<LedgerSide, number> = { server: 0, local: 1, both: 2 };
+  return rows.sort((a, b) => order[a.side] - order[b.side]);
+};
+
+const ServerLedger = ({ transactions }: { transactions: Transaction[] }) => {
+  const [emailFilter, setEmailFilter] = useState('');
+  const [entries, setEntries] = useState<LedgerEntry[] | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  const loadLedger = async () => {
+    setStatus('loading');
+    try {
+      setEntries(await fetchLedger(emailFilter.trim()));
+      setStatus('idle');
+    } catch (err) {
+      console.error('[Ledger] Failed to load server ledger', err);
+      setStatus('error');
+    }
+  };
+
+  // The filter applies to both sides, so the comparison stays apples to apples
+  const filter = emailFilter.trim().toLowerCase();
+  const localRows = filter ? transactions.filter((tx) => tx.email.toLowerCase() === filter) : transactions;
+  const rows = entries ? compareLedger(localRows, entries) : [];
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [row.side]: acc[row.side] + 1 }),
+    { both: 0, local: 0, server: 0 } as Record<LedgerSide, number>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-end">
+        <h3 className="text-sm font-mono opacity-50 uppercase tracking-widest">Server Ledger</h3>
+        {entries && (
+          <span className="text-[10px] font-mono text-gray-500">
+            {counts.both} MATCHED · {counts.local} LOCAL ONLY · {counts.server} SERVER ONLY
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="email"
+          value={emailFilter}
+          onChange={(e) => setEmailFilter(e.target.value)}
+          className="flex-1 bg-transparent border border-black p-2 font-mono text-xs focus:outline-none"
+          placeholder="Filter by email (optional)"
+        />
+        <button
+          onClick={loadLedger}
+          disabled={status === 'loading'}
+          className="bg-black text-[#FDFCF5] px-4 font-mono text-[10px] uppercase hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,0.2)] transition-all disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          {status === 'loading' ? 'Loading...' : entries ? 'Refresh' : 'Compare With Server'}
+        </button>
       </div>
+
+      {status === 'error' && (
+        <p className="text-center text-red-600 text-xs font-mono">Could not load the server ledger.</p>
+      )}
+
+      {entries && rows.length === 0 && (
+        <p className="text-center text-gray-400 italic text-sm py-4">Nothing recorded on either side.</p>
+      )}
+
+      {rows.map((row) => (
+        <div key={row.id} className={`border p-3 flex items-center justify-between ${SIDE_STYLES[row.side].className}`}>
+          <div>
+            <p className="text-sm">{row.email}</p>
+            <p className="font-mono text-[10px] text-gray-500">
+              {formatMoney(row.amount, row.currency)}
+              {row.local && <> · LOCAL: {row.local.status.toUpperCase()}</>}
+              {row.server && <> · SERVER: {row.server.refundId ? 'REFUNDED' : 'PROCESSED'}</>}
+            </p>
+            <p className="font-mono text-[10px] text-gray-400">ID: {row.id}</p>
+          </div>
+          <span className="px-2 py-1 text-[10px] font-mono uppercase tracking-wider border border-current">
+            {SIDE_STYLES[row.side].label}
+          </span>
+        </div>
+      ))}
     </div>
   );
 };
 
-// --- Subcomponent ---
 const StatusBadge = ({ status }: { status: TransactionStatus }) => {
   const styles: Record<TransactionStatus, string> = {
     pending: 'bg-gray-200 text-black',
     retrying: 'bg-yellow-100 text-yellow-800 animate-pulse',
+    rate_limited: 'bg-purple-100 text-purple-800',
     success: 'bg-black text-[#FDFCF5]',
     error: 'bg-red-100 text-red-800',
+    conflict: 'bg-orange-100 text-orange-800',
+    unknown: 'border border-dashed border-black text-black',
+    cancelled: 'bg-gray-100 text-gray-500 line-through',
+    refunded: 'border border-black text-black',
   };
 
   const labels: Record<TransactionStatus, string> = {
     pending: 'Processing...',
     retrying: 'Retrying...',
+    rate_limited: 'Rate Limited',
     success: 'Confirmed',
     error: 'Failed',
+    conflict: 'Key Conflict',
+    unknown: 'Outcome Unknown',
+    cancelled: 'Cancelled',
+    refunded: 'Refunded',
   };
 
   return (
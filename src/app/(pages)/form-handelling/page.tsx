@@ -1,6 +1,16 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { DEFAULT_RETRY_POLICY } from '@/lib/retry-policy';
+import {
+  AttemptOutcome,
+  createLocalStorageStore,
+  isUnfinishedStatus,
+  MutationRecord,
+  MutationStatus,
+  MutationStore,
+  useResilientMutation,
+} from '@/lib/use-resilient-mutation';
 
 // --- TYPES ---
 
@@ -12,6 +22,16 @@ interface FormState {
   notes: string;
 }
 
+type ServerErrors = Partial<Record<keyof FormState | 'root', string>>;
+
+// One press of Submit, persisted until the server has answered for good
+interface Submission extends MutationRecord {
+  status: MutationStatus;
+  values: FormState;
+  timestamp: number;
+  serverErrors?: ServerErrors; // Field errors the server rejected it with
+}
+
 interface ValidationRules {
   emailRegex: RegExp;
   minAge: number;
@@ -37,12 +57,28 @@ const RULES_CONFIG: Record<ValidationMode, ValidationRules> = {
 
 // --- MOCK SERVER ---
 // Simulates network delay and server-side validation logic that differs from client
-const mockSubmitData = async (data: FormState): Promise<{ success: boolean; errors?: Record<string, string> }> => {
+type MockResult = { success: boolean; errors?: Record<string, string> };
+
+// Final answers by idempotency key, so a retried submission is answered the
+// same way instead of being processed twice
+const processedSubmissions = new Map<string, MockResult>();
+
+const mockSubmitData = async (data: FormState, idempotencyKey: string): Promise<MockResult> => {
   return new Promise((resolve) => {
     setTimeout(() => {
+      const replay = processedSubmissions.get(idempotencyKey);
+      if (replay) {
+        resolve(replay);
+        return;
+      }
+      const settle = (result: MockResult) => {
+        processedSubmissions.set(idempotencyKey, result);
+        resolve(result);
+      };
+
       // SERVER RULE: Even if valid client-side, we reject "test" emails
       if (data.email.toLowerCase().includes('test')) {
-        resolve({
+        settle({
           success: false,
           errors: { email: 'Server: This email domain is blacklisted.' }
         });
@@ -51,14 +87,14 @@ const mockSubmitData = async (data: FormState): Promise<{ success: boolean; erro
 
       // SERVER RULE: We are "out of stock" for specific ages
       if (parseInt(data.age) === 30) {
-        resolve({
+        settle({
           success: false,
           errors: { age: 'Server: Allocation for age 30 is full.' }
         });
         return;
       }
 
-      // SERVER RULE: Global error (Generic)
+      // SERVER RULE: Global error (Generic). Transient, so it isn't remembered
       if (Math.random() > 0.8) {
         resolve({
           success: false,
@@ -67,11 +103,48 @@ const mockSubmitData = async (data: FormState): Promise<{ success: boolean; erro
         return;
       }
 
-      resolve({ success: true });
+      settle({ success: true });
     }, 1500); // 1.5s delay
   });
 };
 
+// Field rejections are final; the gateway timeout is worth retrying
+const sendSubmission = async (submission: Submission): Promise<AttemptOutcome<Submission>> => {
+  const response = await mockSubmitData(submission.values, submission.id);
+
+  if (response.success) {
+    return { type: 'success', httpStatus: 200, changes: { serverErrors: undefined } };
+  }
+  if (response.errors?.root) {
+    return { type: 'retry', httpStatus: 504, error: response.errors.root };
+  }
+  return {
+    type: 'settle',
+    httpStatus: 422,
+    error: Object.values(response.errors ?? {}).join(' '),
+    changes: { status: 'error', serverErrors: response.errors },
+  };
+};
+
+// Only the newest submission is ever shown, so each load keeps the unfinished
+// ones (for the hook to resume) and the latest settled one, and drops the rest
+const savedSubmissions = createLocalStorageStore<Submission>('bhumio-form-submissions');
+const submissionStore: MutationStore<Submission> = {
+  ...savedSubmissions,
+  load: async () => {
+    const saved = await savedSubmissions.load();
+    const latestSettled = saved
+      .filter((submission) => !isUnfinishedStatus(submission.status))
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    const kept = saved.filter((submission) => isUnfinishedStatus(submission.status) || submission === latestSettled);
+    if (kept.length < saved.length) {
+      await savedSubmissions.clear();
+      await savedSubmissions.put(kept);
+    }
+    return kept;
+  },
+};
+
 // --- COMPONENT ---
 
 const DynamicForm = () => {
@@ -81,11 +154,40 @@ const DynamicForm = () => {
   
   // distinct error states
   const [clientErrors, setClientErrors] = useState<Partial<Record<keyof FormState, string>>>({});
-  const [serverErrors, setServerErrors] = useState<Partial<Record<keyof FormState | 'root', string>>>({});
+  const [serverErrors, setServerErrors] = useState<ServerErrors>({});
   
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
 
+  // Submissions are persisted and retried by the shared hook, so a reload or a
+  // gateway timeout doesn't lose them
+  const submissions = useResilientMutation<Submission>({
+    store: submissionStore,
+    channelName: 'bhumio-form-submissions',
+    lockPrefix: 'bhumio-form',
+    send: (submission) => sendSubmission(submission),
+    onSettled: (_submission, changes) => {
+      if (changes.status === 'success') setSubmitSuccess(true);
+      if (changes.serverErrors) setServerErrors(changes.serverErrors);
+    },
+  });
+  const latest = [...submissions.records].sort((a, b) => b.timestamp - a.timestamp)[0];
+  const isSubmitting = !!latest && isUnfinishedStatus(latest.status);
+  // Retries ran out without the server ever accepting or rejecting it
+  const gaveUp = latest?.status === 'error' && !latest.serverErrors;
+
+  // Effect: After a reload, put the last unaccepted submission back in the form
+  // (the hook is already resuming it if it was still in flight)
+  // Only once, right after the saved submissions are read
+  const { isLoaded } = submissions;
+  const hasRestored = useRef(false);
+  useEffect(() => {
+    if (!isLoaded || hasRestored.current) return;
+    hasRestored.current = true;
+    if (!latest || latest.status === 'success') return;
+    setFormData(latest.values);
+    if (latest.serverErrors) setServerErrors(latest.serverErrors);
+  }, [isLoaded, latest]);
+
   // 2. Validation Engine
   // Wrapped in callback to ensure it always uses the *current* mode's rules
   const validateField = useCallback((name: keyof FormState, value: string): string | null => {
@@ -161,24 +263,15 @@ const DynamicForm = () => {
     if (hasError) return; // Stop if client rules fail
 
     // 2. Submit to Server
-    setIsSubmitting(true);
-    
-    try {
-      const response = await mockSubmitData(formData);
-      
-      if (!response.success && response.errors) {
-        // Handle Server Errors without losing input
-        setServerErrors(response.errors);
-      } else {
-        setSubmitSuccess(true);
-        // Optional: Reset form? The prompt says "Do not lose user input on error", 
-        // usually on success we DO clear, but I'll leave it populated to show the result.
-      }
-    } catch {
-      setServerErrors({ root: 'Unexpected network crash' });
-    } finally {
-      setIsSubmitting(false);
-    }
+    // Server errors arrive through onSettled without touching the input.
+    // Optional: Reset form? The prompt says "Do not lose user input on error", 
+    // usually on success we DO clear, but I'll leave it populated to show the result.
+    await submissions.submit((idempotencyKey) => ({
+      id: idempotencyKey,
+      status: 'pending',
+      values: formData,
+      timestamp: Date.now(),
+    }));
   };
 
   // Effect: When rules change (dynamic twist), re-validate visible fields immediately
@@ -318,6 +411,23 @@ const DynamicForm = () => {
              </div>
           )}
 
+          {/* RETRY STATUS (transient server failures) */}
+          {latest && (latest.status === 'retrying' || latest.status === 'unknown') && (
+             <div className="bg-yellow-50 border-l-4 border-yellow-500 p-3 text-xs font-mono text-yellow-800">
+               {latest.history?.[latest.history.length - 1]?.error ?? 'No answer from the server.'} Attempt{' '}
+               {latest.attempts ?? 1}/{DEFAULT_RETRY_POLICY.maxAttempts} failed, retrying
+               {latest.nextAttemptAt && <> at {new Date(latest.nextAttemptAt).toLocaleTimeString()}</>}...
+             </div>
+          )}
+          {gaveUp && (
+             <div className="bg-orange-50 border-l-4 border-orange-500 p-3 text-xs font-mono text-orange-800 flex justify-between gap-2">
+               <span>Server: still failing after {DEFAULT_RETRY_POLICY.maxAttempts} attempts.</span>
+               <button type="button" onClick={() => submissions.retry(latest)} className="underline hover:no-underline">
+                 RETRY NOW
+               </button>
+             </div>
+          )}
+
           {/* SUCCESS MESSAGE */}
           {submitSuccess && (
              <div className="bg-green-50 border-l-4 border-green-500 p-3 text-xs font-mono text-green-800">
@@ -346,7 +456,7 @@ const DynamicForm = () => {
       <div className="mt-12 w-full max-w-lg border-t border-dashed border-gray-300 pt-4 opacity-50 hover:opacity-100 transition-opacity">
         <h3 className="font-mono text-[10px] uppercase text-gray-400 mb-2">Internal State</h3>
         <pre className="text-[10px] bg-gray-100 p-2 overflow-auto font-mono">
-          {JSON.stringify({ mode, values: formData, clientErrors, serverErrors }, null, 2)}
+          {JSON.stringify({ mode, values: formData, clientErrors, serverErrors, submission: latest ?? null }, null, 2)}
         </pre>
       </div>
     </div>
@@ -1,153 +1,440 @@
 'use client';
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { OrderStatus, ServerEvent } from '@/lib/order-events';
+import {
+  applyLogEntry,
+  compactLog,
+  createProjection,
+  EntryOutcome,
+  entryOrderId,
+  expiredHistory,
+  LegacyOrderRecord,
+  LogEntry,
+  OrderProjection,
+  OrderRecord,
+  QuarantinedEvent,
+  orderTimeline,
+  replayLog,
+  TimelineMode,
+  upgradeStoredRecord,
+} from '@/lib/order-log';
+import { formatMoney } from '@/lib/money';
+import { HeldEvent } from '@/lib/reorder-buffer';
+import { getRetryDelay } from '@/lib/retry-policy';
 
 // --- TYPES ---
-// The "Backend" sends these types
-type EventType = 'created' | 'updated' | 'deleted';
-
-interface ServerEvent {
-  id: string;
-  timestamp: number;
-  type: EventType;
-  payload: string; // e.g., "Order #123 - PENDING"
+// The "Backend" sends ServerEvents over /api/events (see src/lib/order-events.ts).
+// The "Frontend" keeps every one of them in an append-only log and derives
+// its orders from it (see src/lib/order-log.ts).
+
+// connecting: first attempt; reconnecting: lost the stream, trying again
+type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// Sent by the server when it can't resume from our cursor (see src/lib/event-feed.ts)
+interface ResyncNotice {
+  reason: 'expired' | 'unknown';
+  oldestId: number;
+  latestId: number;
 }
 
-// The "Frontend" stores this state
-interface ItemState {
-  id: string;
-  lastUpdated: number;
-  type: EventType; // We store the type here to show it in the UI
-  payload: string;
+// What the panels render, from the live projection or a replayed one
+interface OrdersView {
+  active: OrderRecord[];
+  all: OrderRecord[];
+  held: [string, HeldEvent[]][];
+  quarantine: QuarantinedEvent[];
 }
 
+// --- STORAGE ---
+// The log is the source of truth. `bhumio-orders-db` still holds the latest
+// snapshot, but it is rewritten from the log after every change.
+const LOG_KEY = 'bhumio-orders-log';
+const SNAPSHOT_KEY = 'bhumio-orders-db';
+// Id of the last event we processed, kept next to the log it was appended to
+const CURSOR_KEY = 'bhumio-orders-cursor';
+// Written by the page before the log existed; folded into the log once
+const LEGACY_BUFFER_KEY = 'bhumio-orders-buffer';
+
+// How long an event may wait for its predecessors before we apply it anyway
+const BUFFER_TIMEOUT_OPTIONS_MS = [2000, 5000, 10000, 30000];
+const DEFAULT_BUFFER_TIMEOUT_MS = 5000;
+const BUFFER_TICK_MS = 500;
+
+// How long a deleted order's tombstone survives compaction
+const TOMBSTONE_RETENTION_OPTIONS_MS = [30 * 1000, 60 * 1000, 5 * 60 * 1000, 60 * 60 * 1000];
+const DEFAULT_TOMBSTONE_RETENTION_MS = 5 * 60 * 1000;
+
+// Storage cap: past LOG_MAX_ENTRIES, everything but the newest LOG_KEEP_ENTRIES
+// is folded into a snapshot holding at most MAX_STORED_ORDERS orders
+const LOG_MAX_ENTRIES = 500;
+const LOG_KEEP_ENTRIES = 200;
+const MAX_STORED_ORDERS = 100;
+
+const LOG_PANEL_LIMIT = 50;
+
+// Starts a log from what older versions of the page saved: the snapshot
+// becomes one import entry, and held events become ordinary event entries
+const migrateLegacyStorage = (): LogEntry[] => {
+  const log: LogEntry[] = [];
+
+  const savedData = localStorage.getItem(SNAPSHOT_KEY);
+  if (savedData) {
+    const parsedEntries: [string, OrderRecord | LegacyOrderRecord][] = JSON.parse(savedData);
+    const records = parsedEntries.flatMap(([, record]) => {
+      const upgraded = upgradeStoredRecord(record);
+      return upgraded ? [upgraded] : [];
+    });
+    if (records.length > 0) log.push({ seq: 1, at: Date.now(), kind: 'import', records });
+  }
+
+  const savedBuffer = localStorage.getItem(LEGACY_BUFFER_KEY);
+  if (savedBuffer) {
+    const buffered: [string, HeldEvent[]][] = JSON.parse(savedBuffer);
+    buffered
+      .flatMap(([, held]) => held)
+      .sort((a, b) => a.heldAt - b.heldAt)
+      .forEach(({ event, heldAt }) => {
+        log.push({ seq: log.length + 1, at: heldAt, kind: 'event', event, streamId: null });
+      });
+  }
+
+  return log;
+};
+
+const summarize = (projection: OrderProjection): OrdersView => {
+  const all = Array.from(projection.orders.values());
+
+  // ACTIVE VIEW: Show Created and Updated (Hide Deleted)
+  const active = all.filter((item) => item.type !== 'deleted');
+  active.sort((a, b) => a.id.localeCompare(b.id));
+
+  // DEBUG VIEW: Show Everything (Newest First)
+  all.sort((a, b) => b.lastUpdated - a.lastUpdated);
+
+  return { active, all, held: projection.buffer.entries(), quarantine: projection.quarantine };
+};
+
+const EMPTY_VIEW: OrdersView = { active: [], all: [], held: [], quarantine: [] };
+
+const formatTime = (epochMs: number) => new Date(epochMs).toLocaleTimeString();
+
 // --- COMPONENT ---
 const OutOfOrderPage = () => {
-  const [eventLog, setEventLog] = useState<ServerEvent[]>([]);
-  
-  // The Source of Truth (O(1) Map)
-  const stateMap = useRef<Map<string, ItemState>>(new Map());
-  
-  // UI State
-  const [activeItems, setActiveItems] = useState<ItemState[]>([]);
-  const [allItemsInStorage, setAllItemsInStorage] = useState<ItemState[]>([]);
+  // The Source of Truth: the log, and the projection replayed from it
+  const log = useRef<LogEntry[]>([]);
+  const outcomes = useRef<EntryOutcome[]>([]);
+  const projection = useRef<OrderProjection>(createProjection());
   const isLoaded = useRef(false);
 
+  // UI State
+  const [live, setLive] = useState<OrdersView>(EMPTY_VIEW);
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
+  const [logOutcomes, setLogOutcomes] = useState<EntryOutcome[]>([]);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [travel, setTravel] = useState<{ mode: TimelineMode; position: number } | null>(null);
+
+  // Reordering State
+  const [bufferTimeoutMs, setBufferTimeoutMs] = useState(DEFAULT_BUFFER_TIMEOUT_MS);
+
+  // Compaction State (a ref too, since processEvent compacts on its own)
+  const [tombstoneRetentionMs, setTombstoneRetentionMs] = useState(DEFAULT_TOMBSTONE_RETENTION_MS);
+  const tombstoneRetention = useRef(DEFAULT_TOMBSTONE_RETENTION_MS);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Stream State
+  const [isSubscribed, setIsSubscribed] = useState(true);
+  const [connection, setConnection] = useState<ConnectionStatus>('connecting');
+  const [reconnects, setReconnects] = useState(0);
+  const lastEventId = useRef<number | null>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [resync, setResync] = useState<ResyncNotice | null>(null);
+
   // --- 1. LOAD (Hydration) ---
   useEffect(() => {
-    const savedData = localStorage.getItem('bhumio-orders-db');
-    if (savedData) {
-      try {
-        const parsedEntries = JSON.parse(savedData);
-        stateMap.current = new Map(parsedEntries);
-        refreshUI();
-      } catch (e) {
-        console.error("Failed to load storage", e);
-      }
+    try {
+      const savedLog = localStorage.getItem(LOG_KEY);
+      log.current = savedLog ? JSON.parse(savedLog) : migrateLegacyStorage();
+    } catch (e) {
+      console.error("Failed to load storage", e);
     }
+    localStorage.removeItem(LEGACY_BUFFER_KEY);
+    const replayed = replayLog(log.current);
+    projection.current = replayed.projection;
+    outcomes.current = replayed.outcomes;
     isLoaded.current = true;
+    saveToStorage();
+    refreshUI();
+
+    const savedCursor = Number(localStorage.getItem(CURSOR_KEY));
+    if (savedCursor > 0) {
+      lastEventId.current = savedCursor;
+      setCursor(savedCursor);
+    }
   }, []);
 
   // --- 2. SAVE ---
   const saveToStorage = () => {
     if (!isLoaded.current) return;
-    const entries = Array.from(stateMap.current.entries());
-    localStorage.setItem('bhumio-orders-db', JSON.stringify(entries));
+    localStorage.setItem(LOG_KEY, JSON.stringify(log.current));
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(Array.from(projection.current.orders.entries())));
+  };
+
+  const saveCursor = (eventId: number) => {
+    lastEventId.current = eventId;
+    setCursor(eventId);
+    if (isLoaded.current) localStorage.setItem(CURSOR_KEY, String(eventId));
   };
 
   // --- 3. REFRESH UI ---
   const refreshUI = () => {
-    const allItems = Array.from(stateMap.current.values());
-    
-    // ACTIVE VIEW: Show Created and Updated (Hide Deleted)
-    const active = allItems.filter(item => item.type !== 'deleted');
-    active.sort((a, b) => a.id.localeCompare(b.id));
-
-    // DEBUG VIEW: Show Everything (Newest First)
-    allItems.sort((a, b) => b.lastUpdated - a.lastUpdated); 
+    setLive(summarize(projection.current));
+    setLogEntries([...log.current]);
+    setLogOutcomes([...outcomes.current]);
+  };
 
-    setActiveItems(active);
-    setAllItemsInStorage(allItems);
+  // Full replay: throw the projection away and derive it from the log again
+  const rebuild = () => {
+    const replayed = replayLog(log.current);
+    projection.current = replayed.projection;
+    outcomes.current = replayed.outcomes;
+    refreshUI();
   };
 
-  // --- 4. PROCESS EVENT (The Core Logic) ---
-  const processEvent = useCallback((newEvent: ServerEvent) => {
-    setEventLog((prev) => [newEvent, ...prev]);
+  // --- 4. APPEND (The Core Logic lives in applyLogEntry) ---
+  // Entries are only ever added at the end, and applied as they are added
+  const append = (entry: LogEntry) => {
+    const outcome = applyLogEntry(projection.current, entry);
+    log.current.push(entry);
+    outcomes.current.push(outcome);
+    console.log(`[Log #${entry.seq}] ${outcome.result}: ${outcome.note}`);
+  };
 
-    const currentMap = stateMap.current;
-    const existingRecord = currentMap.get(newEvent.id);
+  const nextSeq = () => (log.current[log.current.length - 1]?.seq ?? 0) + 1;
 
-    // LOGIC: Check Timestamps
-    if (existingRecord && existingRecord.lastUpdated >= newEvent.timestamp) {
-      console.log(`[Ignored] Late event for ${newEvent.id}`);
-      return; 
-    }
-
-    // UPDATE STATE
-    // We overwrite the *entire* object.
-    // This is how the "type" gets updated from 'created' to 'updated'.
-    currentMap.set(newEvent.id, {
-      id: newEvent.id,
-      lastUpdated: newEvent.timestamp,
-      type: newEvent.type, // <--- This updates the type in our state
-      payload: newEvent.payload,
+  // --- 5. COMPACT ---
+  // Folds all but the newest `keepEntries` entries into a snapshot, dropping
+  // expired tombstones and the oldest orders over the cap. The history before
+  // the snapshot is gone, so time travel starts over.
+  const compact = (keepEntries: number) => {
+    const compaction = compactLog(log.current, {
+      now: Date.now(),
+      tombstoneRetentionMs: tombstoneRetention.current,
+      keepEntries,
+      maxOrders: MAX_STORED_ORDERS,
     });
+    if (!compaction) return;
+
+    log.current = compaction.entries;
+    const replayed = replayLog(log.current);
+    projection.current = replayed.projection;
+    outcomes.current = replayed.outcomes;
+    setTravel(null);
+    console.log(
+      `[Compact] Folded ${compaction.folded} entries; dropped ${compaction.expired} tombstones and ${compaction.evicted} old orders`
+    );
+  };
 
+  // --- 6. PROCESS EVENT ---
+  const processEvent = useCallback((newEvent: ServerEvent, streamId: number | null) => {
+    append({ seq: nextSeq(), at: Date.now(), kind: 'event', event: newEvent, streamId });
+    if (log.current.length > LOG_MAX_ENTRIES) compact(LOG_KEEP_ENTRIES);
     saveToStorage();
     refreshUI();
   }, []);
 
+  // --- 7. BUFFER TIMEOUT ---
+  // Once an order has had an event waiting for `bufferTimeoutMs`, stop waiting.
+  // A status change quarantined across the gap that leaves gets the same time
+  // for the missing history to turn up, then a second timeout gives up on it.
+  // The decision goes into the log, so a replay makes the same one.
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const buffer = projection.current.buffer;
+      if (buffer.size > 0) setNow(Date.now());
 
-  // --- SIMULATION: REAL ORDER FLOW ---
-  const generateOrderFlow = () => {
-    const id = `ORD-${Math.floor(Math.random() * 900) + 100}`; // Random ID like ORD-123
-    const t = Date.now();
+      const held = buffer.expired(bufferTimeoutMs);
+      const stuck = expiredHistory(projection.current, bufferTimeoutMs).filter((orderId) => !held.includes(orderId));
+      const expired = [...held, ...stuck];
+      if (expired.length === 0) return;
 
-    // The Backend sends 3 events for this ONE order
-    const events: ServerEvent[] = [
-      // 1. Initial Creation
-      { id, timestamp: t, type: 'created', payload: `Order ${id} - PENDING` },
-      
-      // 2. Status Update (Payment Confirmed)
-      { id, timestamp: t + 2000, type: 'updated', payload: `Order ${id} - CONFIRMED` },
-      
-      // 3. Status Update (Shipped)
-      { id, timestamp: t + 5000, type: 'updated', payload: `Order ${id} - SHIPPED` },
-    ];
+      expired.forEach((orderId) => append({ seq: nextSeq(), at: Date.now(), kind: 'timeout', orderId }));
+      saveToStorage();
+      refreshUI();
+    }, BUFFER_TICK_MS);
 
-    // Shuffle them to simulate Out-of-Order arrival
-    // (We might receive 'SHIPPED' before 'CREATED'!)
-    const shuffled = events.sort(() => Math.random() - 0.5);
+    return () => clearInterval(timer);
+  }, [bufferTimeoutMs]);
 
-    shuffled.forEach((ev, i) => {
-      setTimeout(() => processEvent(ev), i * 1000);
-    });
-  };
+  // --- 8. SUBSCRIBE (Server-Sent Events) ---
+  // EventSource reconnects by itself after a network error or when the server
+  // ends the stream, using the server's `retry:` hint. It only gives up for good
+  // (readyState CLOSED) on a bad response, e.g. a 5xx; then we open a new one
+  // ourselves with backoff.
+  // Either way the server learns our cursor (Last-Event-ID header on its own
+  // reconnects, `?lastEventId=` on ours) and replays what we missed first.
+  useEffect(() => {
+    if (!isSubscribed) {
+      setConnection('closed');
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const connect = () => {
+      const resumeFrom = lastEventId.current;
+      source = new EventSource(resumeFrom === null ? '/api/events' : `/api/events?lastEventId=${resumeFrom}`);
+
+      source.onopen = () => {
+        failures = 0;
+        setConnection('open');
+      };
+
+      // Ids only go up within a stream, so anything at or below the cursor is
+      // a duplicate delivery we've already processed
+      source.onmessage = (message) => {
+        const eventId = Number(message.lastEventId);
+        if (lastEventId.current !== null && eventId <= lastEventId.current) {
+          console.log(`[Ignored] Duplicate delivery of #${eventId}`);
+          return;
+        }
+        try {
+          processEvent(JSON.parse(message.data) as ServerEvent, eventId);
+          saveCursor(eventId);
+        } catch (e) {
+          console.error('Unreadable event', message.data, e);
+        }
+      };
+
+      // Our cursor is unusable; the server replays its whole buffer next, so
+      // start counting again from just before it
+      source.addEventListener('resync', (message) => {
+        const notice = JSON.parse((message as MessageEvent<string>).data) as ResyncNotice;
+        lastEventId.current = notice.oldestId - 1;
+        setResync(notice);
+      });
+
+      source.onerror = () => {
+        setConnection('reconnecting');
+        setReconnects((n) => n + 1);
+        if (source?.readyState !== EventSource.CLOSED) return;
+
+        failures += 1;
+        retryTimer = setTimeout(connect, getRetryDelay(failures, null));
+      };
+    };
+
+    setConnection('connecting');
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [isSubscribed, processEvent]);
 
   const clearStorage = () => {
-    localStorage.removeItem('bhumio-orders-db');
-    stateMap.current.clear();
-    setEventLog([]);
+    localStorage.removeItem(LOG_KEY);
+    localStorage.removeItem(SNAPSHOT_KEY);
+    localStorage.removeItem(CURSOR_KEY);
+    lastEventId.current = null;
+    setCursor(null);
+    setResync(null);
+    setTravel(null);
+    setSelectedOrderId(null);
+    log.current = [];
+    rebuild();
+  };
+
+  const onCompact = () => {
+    compact(0);
+    saveToStorage();
     refreshUI();
   };
 
+  const changeTombstoneRetention = (ms: number) => {
+    tombstoneRetention.current = ms;
+    setTombstoneRetentionMs(ms);
+  };
+
+  const onRebuild = () => {
+    rebuild();
+    console.log(`[Rebuild] Replayed ${log.current.length} log entries`);
+  };
+
+  // --- 9. TIME TRAVEL ---
+  // Replays the first `position` entries of the chosen timeline into a
+  // throwaway projection; the live one keeps running underneath
+  const timeline = useMemo(
+    () => (travel ? orderTimeline(logEntries, travel.mode) : logEntries),
+    [logEntries, travel]
+  );
+  const history = useMemo(() => {
+    if (!travel) return null;
+    const replayed = replayLog(timeline.slice(0, travel.position));
+    return { view: summarize(replayed.projection), outcomes: replayed.outcomes };
+  }, [timeline, travel]);
+
+  const startTravel = (mode: TimelineMode) =>
+    setTravel({ mode, position: orderTimeline(logEntries, mode).length });
+
+  const travelLabel = (() => {
+    if (!travel) return null;
+    const last = timeline[travel.position - 1];
+    if (!last) return 'Before the first entry';
+    if (travel.mode === 'arrival') return `After log #${last.seq} · received ${formatTime(last.at)}`;
+    return last.kind === 'event' ? `As of ${formatTime(last.event.timestamp)} at the source` : 'Imported orders only';
+  })();
+
+  const { active: activeItems, all: allItemsInStorage, held: heldEvents, quarantine } = history?.view ?? live;
+  const shownOutcomes = history?.outcomes ?? logOutcomes;
+
+  // Newest first; with an order selected, only the entries that touched it
+  const logRows = timeline
+    .map((entry, i) => ({ entry, outcome: shownOutcomes[i], applied: !travel || i < travel.position }))
+    .filter(({ entry }) => selectedOrderId === null || entryOrderId(entry) === selectedOrderId)
+    .reverse()
+    .slice(0, LOG_PANEL_LIMIT);
+
+  const toggleSelected = (orderId: string) =>
+    setSelectedOrderId((current) => (current === orderId ? null : orderId));
+
+  // Orders we've only seen later events of: nothing applied yet
+  const heldByOrder = new Map(heldEvents);
+  const awaitingOnly = heldEvents.filter(([orderId]) => !allItemsInStorage.some((item) => item.id === orderId));
+
   return (
     <div className="min-h-screen w-full bg-[#FDFCF5] text-black font-sans p-8 flex flex-col items-center">
       
       <header className="mb-8 text-center">
         <h1 className="text-3xl font-light tracking-tighter lowercase">Order Stream.</h1>
         <p className="mt-2 text-xs text-gray-500 font-mono">
-          Simulating Backend Events: Created → Updated → Shipped
+          Live Backend Events (SSE): Pending → Confirmed → Shipped → Delivered
         </p>
+        <div className="mt-3 flex items-center justify-center gap-3 font-mono text-[10px]">
+          <ConnectionBadge status={connection} />
+          {reconnects > 0 && <span className="text-gray-400">{reconnects} reconnect{reconnects === 1 ? '' : 's'}</span>}
+          <span className="text-gray-400">Cursor: {cursor === null ? 'live' : `#${cursor}`}</span>
+          <span className="text-gray-400">Log: {logEntries.length} entries</span>
+        </div>
+        {resync && (
+          <p className="mt-2 font-mono text-[10px] text-orange-600">
+            {resync.reason === 'expired'
+              ? `Server no longer has events before #${resync.oldestId}; some updates may be missing.`
+              : `Server's event log restarted (latest #${resync.latestId}); cursor reset.`}
+          </p>
+        )}
       </header>
 
       {/* CONTROLS */}
       <div className="flex gap-4 mb-8">
         <button
-          onClick={generateOrderFlow}
+          onClick={() => setIsSubscribed((on) => !on)}
           className="bg-black text-[#FDFCF5] px-6 py-3 font-medium hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,0.2)] hover:-translate-y-1 transition-all"
         >
-          Simulate Order (Shuffle)
+          {isSubscribed ? 'Disconnect' : 'Connect'}
         </button>
         <button
           onClick={clearStorage}
@@ -155,6 +442,61 @@ const OutOfOrderPage = () => {
         >
           Reset
         </button>
+        <button
+          onClick={onRebuild}
+          className="border border-black px-6 py-3 font-medium hover:bg-black hover:text-[#FDFCF5] transition-all"
+        >
+          Rebuild
+        </button>
+        <button
+          onClick={onCompact}
+          className="border border-black px-6 py-3 font-medium hover:bg-black hover:text-[#FDFCF5] transition-all"
+        >
+          Compact
+        </button>
+      </div>
+
+      {/* TIME TRAVEL */}
+      <div className={`mb-8 w-full max-w-6xl border p-4 font-mono text-[10px] ${travel ? 'border-blue-600 bg-blue-50' : 'border-black/10 bg-gray-50'}`}>
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-xs uppercase tracking-widest opacity-50">Time Travel</h3>
+          <div className="flex items-center gap-2">
+            {(['arrival', 'event-time'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => startTravel(mode)}
+                className={`border border-black px-2 py-1 uppercase tracking-wider ${travel?.mode === mode ? 'bg-black text-white' : 'bg-white'}`}
+              >
+                {mode === 'arrival' ? 'Arrival order' : 'Event time'}
+              </button>
+            ))}
+            {travel && (
+              <button onClick={() => setTravel(null)} className="border border-blue-600 bg-white px-2 py-1 uppercase tracking-wider text-blue-700">
+                Back to live
+              </button>
+            )}
+          </div>
+        </div>
+        {travel && (
+          <div className="mt-3 flex items-center gap-4">
+            <input
+              type="range"
+              min={0}
+              max={timeline.length}
+              value={Math.min(travel.position, timeline.length)}
+              onChange={(e) => setTravel({ ...travel, position: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="w-64 text-right text-blue-700">
+              {travel.position}/{timeline.length} · {travelLabel}
+            </span>
+          </div>
+        )}
+        {travel && (
+          <p className="mt-2 text-blue-700">
+            Viewing history: new events are still being logged, but the panels below show the replayed state.
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 w-full max-w-6xl">
@@ -165,28 +507,76 @@ const OutOfOrderPage = () => {
             <h2 className="font-mono text-xs uppercase tracking-widest opacity-50">
               Current Orders (UI)
             </h2>
-            <span className="text-xs font-bold">{activeItems.length} Active</span>
+            <span className="text-xs font-bold">
+              {activeItems.length} Active{awaitingOnly.length > 0 && ` · ${awaitingOnly.length} Awaiting`}
+            </span>
           </div>
           
           <div className="grid gap-3">
-            {activeItems.length === 0 && <p className="text-sm text-gray-400 italic">No active orders.</p>}
+            {activeItems.length === 0 && awaitingOnly.length === 0 && (
+              <p className="text-sm text-gray-400 italic">No active orders.</p>
+            )}
+            {awaitingOnly.map(([orderId, held]) => (
+              <div
+                key={orderId}
+                onClick={() => toggleSelected(orderId)}
+                className={`border border-dashed border-orange-500 p-4 bg-orange-50 flex justify-between items-center cursor-pointer ${
+                  selectedOrderId === orderId ? 'ring-2 ring-black' : ''
+                }`}
+              >
+                <div>
+                  <h3 className="text-lg font-medium">
+                    {held.find(({ event }) => event.payload.customer)?.event.payload.customer ?? 'Unknown customer'}
+                  </h3>
+                  <p className="font-mono text-[10px] text-gray-400">ID: {orderId}</p>
+                  <p className="font-mono text-[10px] text-orange-600">
+                    Awaiting v1 · holding v{held.map(({ event }) => event.version).join(', v')}
+                  </p>
+                </div>
+                <span className="px-2 py-1 text-[10px] font-mono uppercase tracking-wider border border-orange-500 text-orange-600">
+                  Awaiting
+                </span>
+              </div>
+            ))}
             {activeItems.map((item) => (
-              <div key={item.id} className="border border-black p-4 bg-white flex justify-between items-center shadow-[4px_4px_0px_0px_rgba(0,0,0,0.05)]">
+              <div
+                key={item.id}
+                onClick={() => toggleSelected(item.id)}
+                className={`border p-4 bg-white flex justify-between items-center cursor-pointer shadow-[4px_4px_0px_0px_rgba(0,0,0,0.05)] ${
+                  item.missing ? 'border-dashed border-red-500' : 'border-black'
+                } ${selectedOrderId === item.id ? 'ring-2 ring-black' : ''}`}
+              >
                 <div>
-                  {/* Shows the Payload (e.g. Order - SHIPPED) */}
-                  <h3 className="text-lg font-medium">{item.payload}</h3>
+                  <h3 className="text-lg font-medium">{item.customer ?? 'Unknown customer'}</h3>
                   <p className="font-mono text-[10px] text-gray-400">ID: {item.id}</p>
+                  {heldByOrder.has(item.id) && (
+                    <p className="font-mono text-[10px] text-orange-600">
+                      Awaiting v{(item.version ?? 0) + 1} · holding v
+                      {heldByOrder.get(item.id)?.map(({ event }) => event.version).join(', v')}
+                    </p>
+                  )}
+                  {item.trackingNumber && (
+                    <p className="font-mono text-[10px] text-gray-600">Tracking: {item.trackingNumber}</p>
+                  )}
+                  {item.missing && (
+                    <p className="font-mono text-[10px] text-red-600">
+                      Incomplete · never received v{item.missing.join(', v')}
+                    </p>
+                  )}
                 </div>
 
-                {/* --- HERE IS THE DYNAMIC TYPE BADGE --- */}
-                <div className={`
-                    px-2 py-1 text-[10px] font-mono uppercase tracking-wider border
-                    ${item.type === 'created' ? 'bg-black text-white border-black' : ''}
-                    ${item.type === 'updated' ? 'bg-white text-black border-black' : ''}
-                  `}>
-                  {item.type}
+                <div className="flex flex-col items-end gap-1">
+                  {item.status ? (
+                    <OrderStatusBadge status={item.status} />
+                  ) : (
+                    <span className="px-2 py-1 text-[10px] font-mono uppercase tracking-wider border border-dashed border-gray-400 text-gray-400">
+                      Unknown
+                    </span>
+                  )}
+                  {item.total !== undefined && item.currency && (
+                    <span className="font-mono text-xs">{formatMoney(item.total, item.currency)}</span>
+                  )}
                 </div>
-                {/* -------------------------------------- */}
               </div>
             ))}
           </div>
@@ -198,6 +588,18 @@ const OutOfOrderPage = () => {
             <h2 className="font-mono text-xs uppercase tracking-widest opacity-50">
               Backend State (LocalStorage)
             </h2>
+            <label className="font-mono text-[10px] text-gray-500 flex items-center gap-2">
+              Keep tombstones
+              <select
+                value={tombstoneRetentionMs}
+                onChange={(e) => changeTombstoneRetention(Number(e.target.value))}
+                className="border border-black bg-white px-1 py-0.5"
+              >
+                {TOMBSTONE_RETENTION_OPTIONS_MS.map((ms) => (
+                  <option key={ms} value={ms}>{ms < 60 * 1000 ? `${ms / 1000}s` : `${ms / 60 / 1000}m`}</option>
+                ))}
+              </select>
+            </label>
           </div>
 
           <div className="space-y-2 bg-gray-50 p-4 border border-black/10 max-h-[500px] overflow-y-auto">
@@ -210,12 +612,22 @@ const OutOfOrderPage = () => {
                >
                  <div className="flex flex-col">
                    <span className="font-bold">{item.id}</span>
-                   <span>{item.payload}</span>
+                   <span>{item.status ?? 'UNKNOWN'}{item.customer ? ` · ${item.customer}` : ''}</span>
+                   {item.fieldVersions && (
+                     <span className="opacity-50 text-[10px]">
+                       {Object.entries(item.fieldVersions)
+                         .map(([field, version]) => `${field}@v${version}`)
+                         .join(' ')}
+                     </span>
+                   )}
                  </div>
                  <div className="text-right">
                    {/* We display the TYPE stored in the DB */}
                    <div className="uppercase font-bold tracking-wider">{item.type}</div>
-                   <div className="opacity-50 text-[10px]">{item.lastUpdated.toString().slice(-6)}</div>
+                   <div className="opacity-50 text-[10px]">
+                     {item.version !== undefined ? `v${item.version}` : 'v?'} · {item.lastUpdated.toString().slice(-6)}
+                     {item.tombstone && ` · tombstone v${item.tombstone.version}`}
+                   </div>
                  </div>
                </div>
              ))}
@@ -224,17 +636,97 @@ const OutOfOrderPage = () => {
 
       </div>
 
-      {/* RAW FEED LOG */}
+      {/* REORDER BUFFER */}
+      <div className="mt-12 w-full max-w-2xl border border-black/10 bg-gray-50 p-4">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-mono text-xs uppercase tracking-widest opacity-50">
+            Reorder Buffer ({heldEvents.reduce((count, [, held]) => count + held.length, 0)} held)
+          </h3>
+          <label className="font-mono text-[10px] text-gray-500 flex items-center gap-2">
+            Give up after
+            <select
+              value={bufferTimeoutMs}
+              onChange={(e) => setBufferTimeoutMs(Number(e.target.value))}
+              className="border border-black bg-white px-1 py-0.5"
+            >
+              {BUFFER_TIMEOUT_OPTIONS_MS.map((ms) => (
+                <option key={ms} value={ms}>{ms / 1000}s</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-col gap-1">
+          {heldEvents.length === 0 && <p className="text-[10px] font-mono text-gray-400">Nothing waiting.</p>}
+          {heldEvents.flatMap(([orderId, held]) =>
+            held.map(({ event, heldAt }) => (
+              <div key={`${orderId}:${event.version}`} className="text-[10px] flex justify-between gap-4 font-mono text-gray-600">
+                <span className="font-bold">{orderId} v{event.version}</span>
+                <span className="flex-1">{event.payload.status}</span>
+                <span className="text-orange-600">
+                  {travel
+                    ? `held at ${formatTime(heldAt)}`
+                    : `${Math.max(0, Math.ceil((heldAt + bufferTimeoutMs - now) / 1000))}s left`}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* QUARANTINE */}
+      {quarantine.length > 0 && (
+        <div className="mt-4 w-full max-w-2xl border border-red-500 bg-red-50 p-4">
+          <h3 className="font-mono text-xs uppercase tracking-widest text-red-600 mb-2">
+            Quarantined Events ({quarantine.length})
+          </h3>
+          <div className="flex flex-col gap-1">
+            {quarantine.map(({ event, reason, at }) => (
+              <div key={`${event.id}:${event.version}:${at}`} className="text-[10px] flex justify-between gap-4 font-mono text-red-700">
+                <span className="font-bold">{event.id} v{event.version}</span>
+                <span className="flex-1">{reason}</span>
+                <span className="opacity-60">{new Date(at).toLocaleTimeString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* EVENT LOG */}
       <div className="mt-12 w-full max-w-2xl border-t border-dashed border-gray-300 pt-4">
-        <h3 className="font-mono text-xs text-gray-400 mb-2">LIVE INCOMING EVENTS</h3>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-mono text-xs text-gray-400">
+            EVENT LOG{selectedOrderId && ` · ${selectedOrderId}`}
+            {travel?.mode === 'event-time' && ' (EVENT TIME)'}
+          </h3>
+          {selectedOrderId && (
+            <button onClick={() => setSelectedOrderId(null)} className="font-mono text-[10px] underline text-gray-500">
+              Show all orders
+            </button>
+          )}
+        </div>
+        {selectedOrderId === null && (
+          <p className="mb-2 font-mono text-[10px] text-gray-400">Click an order to see how it got its state.</p>
+        )}
         <div className="flex flex-col gap-1">
-           {eventLog.slice(0, 5).map((ev, i) => (
-             <div key={i} className="text-[10px] flex justify-between font-mono text-gray-500">
-               <span>Input: {ev.type.toUpperCase()}</span>
-               <span>{ev.payload}</span>
-               <span>T={ev.timestamp.toString().slice(-5)}</span>
-             </div>
-           ))}
+          {logRows.length === 0 && <p className="text-[10px] font-mono text-gray-400">Nothing logged yet.</p>}
+          {logRows.map(({ entry, outcome, applied }) => (
+            <div
+              key={entry.seq}
+              className={`text-[10px] grid grid-cols-[3rem_7rem_1fr] gap-2 font-mono ${
+                applied ? (outcome ? OUTCOME_STYLES[outcome.result] : 'text-gray-500') : 'text-gray-300'
+              }`}
+            >
+              <span>#{entry.seq}</span>
+              <span>
+                {entry.kind === 'event'
+                  ? `${entry.event.id} v${entry.event.version}`
+                  : entry.kind === 'timeout'
+                    ? `${entry.orderId} timeout`
+                    : entry.kind}
+              </span>
+              <span>{applied && outcome ? outcome.note : 'not yet'}</span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -242,4 +734,47 @@ const OutOfOrderPage = () => {
   );
 };
 
+const OUTCOME_STYLES: Record<EntryOutcome['result'], string> = {
+  applied: 'text-gray-700',
+  held: 'text-orange-600',
+  merged: 'text-blue-700',
+  late: 'text-gray-400',
+  quarantined: 'text-red-600',
+  timeout: 'text-red-600',
+  import: 'text-blue-700',
+  snapshot: 'text-blue-700',
+};
+
+// --- Subcomponents ---
+const ConnectionBadge = ({ status }: { status: ConnectionStatus }) => {
+  const styles: Record<ConnectionStatus, string> = {
+    connecting: 'border-black text-black',
+    open: 'bg-black text-white border-black',
+    reconnecting: 'border-orange-500 text-orange-600 bg-orange-50 animate-pulse',
+    closed: 'border-gray-300 text-gray-400',
+  };
+
+  return (
+    <span className={`px-2 py-1 uppercase tracking-wider border ${styles[status]}`}>
+      {status === 'open' ? '● Live' : status}
+    </span>
+  );
+};
+
+const OrderStatusBadge = ({ status }: { status: OrderStatus }) => {
+  const styles: Record<OrderStatus, string> = {
+    PENDING: 'bg-white text-black border-black',
+    CONFIRMED: 'bg-black text-white border-black',
+    SHIPPED: 'bg-blue-50 text-blue-700 border-blue-600',
+    DELIVERED: 'bg-green-50 text-green-700 border-green-600',
+    CANCELLED: 'bg-red-50 text-red-700 border-red-500',
+  };
+
+  return (
+    <span className={`px-2 py-1 text-[10px] font-mono uppercase tracking-wider border ${styles[status]}`}>
+      {status}
+    </span>
+  );
+};
+
 export default OutOfOrderPage;
\ No newline at end of file
@@ -0,0 +1,37 @@
+// src/app/api/chaos/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getChaosConfig, resetChaosConfig, updateChaosConfig } from '@/lib/chaos';
+
+// --- API Handlers ---
+// Backs the /chaos control panel. Changes live in server memory only and
+// apply to every request that doesn't pick a profile explicitly.
+export async function GET() {
+  return NextResponse.json(getChaosConfig());
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    // Unparseable JSON is the caller's mistake, same as a bad field
+    const body: unknown = await req.json().catch(() => undefined);
+    const errors =
+      body && typeof body === 'object' && !Array.isArray(body)
+        ? updateChaosConfig(body)
+        : { body: 'Must be a JSON object' };
+    if (errors) {
+      return NextResponse.json({ error: 'Invalid chaos settings', fields: errors }, { status: 400 });
+    }
+
+    console.log('[Chaos] Runtime settings updated');
+    return NextResponse.json(getChaosConfig());
+  } catch (error) {
+    console.error('[API] Failed to update chaos settings:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
+
+// Back to the profile from CHAOS_PROFILE (or "flaky") with no overrides
+export async function DELETE() {
+  resetChaosConfig();
+  console.log('[Chaos] Runtime settings reset to defaults');
+  return NextResponse.json(getChaosConfig());
+}
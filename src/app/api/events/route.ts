@@ -0,0 +1,117 @@
+// src/app/api/events/route.ts
+import { NextRequest } from 'next/server';
+import { createChaos } from '@/lib/chaos';
+import { FeedEntry, getEventFeed } from '@/lib/event-feed';
+
+// Every connection is its own stream; never cache or prerender it
+export const dynamic = 'force-dynamic';
+
+const RECONNECT_DELAY_MS = 2000; // Sent as the SSE `retry:` hint
+const HEARTBEAT_MS = 15000; // Comment lines keep proxies from closing an idle stream
+const DUPLICATE_DELAY_MAX_MS = 1000;
+
+// Where to resume from. EventSource sends the `Last-Event-ID` header on its own
+// reconnects; a fresh EventSource (after a reload) can't set headers, so the
+// page passes its saved cursor as `?lastEventId=` instead. Null = live only.
+const readCursor = (req: NextRequest): number | null => {
+  const raw = req.headers.get('last-event-id') ?? new URL(req.url).searchParams.get('lastEventId');
+  if (raw === null || raw === '') return null;
+  const cursor = Number(raw);
+  return Number.isSafeInteger(cursor) && cursor >= 0 ? cursor : null;
+};
+
+const formatEntry = ({ eventId, event }: FeedEntry) => `id: ${eventId}\ndata: ${JSON.stringify(event)}\n\n`;
+
+// --- API Handler ---
+// Server-Sent Events feed of order lifecycles (created → confirmed → shipped),
+// replayed from the cursor first when one is given. Events already arrive in
+// the log shuffled and late (see src/lib/event-feed.ts); on top of that, this
+// connection's chaos profile may deliver an event twice or drop the stream.
+export async function GET(req: NextRequest) {
+  const chaos = createChaos(req, 'events', 'stream');
+  const { settings, random } = chaos;
+  const feed = getEventFeed();
+  const cursor = readCursor(req);
+  const encoder = new TextEncoder();
+
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let unsubscribe: (() => void) | undefined;
+  let closed = false;
+
+  const stop = () => {
+    closed = true;
+    unsubscribe?.();
+    timers.forEach(clearTimeout);
+    timers.clear();
+    clearInterval(heartbeat);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const disconnect = () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      };
+
+      // --- 1. DELIVER ---
+      // A duplicate is the same id sent again later, so it always shows up
+      // behind newer ids and the client can drop it by comparing with its cursor
+      const deliver = (entry: FeedEntry) => {
+        send(formatEntry(entry));
+
+        if (random() < settings.duplicateRate) {
+          const timer = setTimeout(() => {
+            timers.delete(timer);
+            send(formatEntry(entry));
+          }, Math.round(random() * DUPLICATE_DELAY_MAX_MS));
+          timers.add(timer);
+        }
+        if (random() < settings.disconnectRate) {
+          console.log(`[Events] Chaos: dropping the stream after #${entry.eventId}`);
+          disconnect();
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      // --- 2. REPLAY ---
+      // Subscribing in the same tick as reading the buffer means nothing can
+      // be appended in between: no gap and no overlap with the live events
+      if (cursor !== null) {
+        const { entries, resync } = feed.since(cursor);
+        if (resync) {
+          console.log(`[Events] Cursor #${cursor} can't be resumed (${resync}), replaying the buffer`);
+          const data = { reason: resync, oldestId: feed.oldestId, latestId: feed.latestId };
+          send(`event: resync\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+        entries.forEach((entry) => send(formatEntry(entry)));
+      }
+
+      // --- 3. LIVE ---
+      unsubscribe = feed.subscribe(deliver);
+      heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      // The client went away: stop listening to the feed
+      req.signal.addEventListener('abort', disconnect);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Chaos-Profile': chaos.profile,
+      'X-Chaos-Seed': chaos.seed,
+    },
+  });
+}
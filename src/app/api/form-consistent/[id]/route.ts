@@ -0,0 +1,48 @@
+// src/app/api/form-consistent/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getOperationStore, getTransactionStore, operationLinkKey } from '@/lib/transaction-store';
+import { getInFlightRegistry } from '@/lib/in-flight-registry';
+
+const processedTransactions = getTransactionStore();
+const paymentOperations = getOperationStore();
+const inFlightTransactions = getInFlightRegistry('charges');
+
+// --- API Handler ---
+// Lets a client ask "what happened to this idempotency key?" before deciding
+// whether it needs to POST again.
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id } = params;
+
+    const stored = await processedTransactions.get(id);
+    const operation = await paymentOperations.get(operationLinkKey(id));
+
+    if (operation?.kind === 'void') {
+      return NextResponse.json({ id, status: 'voided', voidId: operation.id, voidedAt: operation.date }, { status: 200 });
+    }
+
+    if (stored) {
+      return NextResponse.json(
+        {
+          id,
+          status: 'processed',
+          email: stored.email,
+          amount: stored.amount,
+          currency: stored.currency,
+          date: stored.date,
+          ...(operation?.kind === 'refund' && { refundId: operation.id, refundedAt: operation.date }),
+        },
+        { status: 200 }
+      );
+    }
+
+    if (inFlightTransactions.get(id)) {
+      return NextResponse.json({ id, status: 'in_progress' }, { status: 200 });
+    }
+
+    return NextResponse.json({ id, status: 'unknown' }, { status: 200 });
+  } catch (error) {
+    console.error('[API] Failed to look up transaction:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
@@ -0,0 +1,6 @@
+// src/app/api/form-consistent/refund/route.ts
+import { createOperationHandler } from '@/lib/payment-operations';
+
+// --- API Handler ---
+// Refunds a processed charge. Body: { transactionId, idempotencyKey }
+export const POST = createOperationHandler('refund');
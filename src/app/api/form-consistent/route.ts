@@ -1,39 +1,107 @@
 // src/app/api/form-consistent/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getOperationStore, getTransactionStore, operationLinkKey } from '@/lib/transaction-store';
+import { fingerprintPayload } from '@/lib/fingerprint';
+import { getInFlightRegistry } from '@/lib/in-flight-registry';
+import { Chaos, createChaos } from '@/lib/chaos';
+import {
+  inProgressResponse,
+  keyMismatchResponse,
+  rateLimitedResponse,
+  unavailableResponse,
+} from '@/lib/idempotency-responses';
+import { parseLedgerQuery, queryLedger } from '@/lib/ledger';
+import { CurrencyCode, validateMoney } from '@/lib/money';
+import { limitCharge, readClientIpConfig } from '@/lib/rate-limiter';
 
 interface TransactionRequest {
   email: string;
-  amount: number;
+  amount: number; // Integer minor units (e.g. cents)
+  currency: CurrencyCode;
   idempotencyKey: string;
 }
 
-interface StoredTransaction {
-  email: string;
-  amount: number;
-  date: Date;
-}
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+// --- Validation ---
+// Checks every field and reports all problems at once, keyed by field name
+const validateChargeRequest = (body: Record<string, unknown>): Record<string, string> | null => {
+  const errors: Record<string, string> = { ...validateMoney(body.amount, body.currency) };
 
-const processedTransactions = new Map<string, StoredTransaction>();
+  if (typeof body.email !== 'string' || !EMAIL_PATTERN.test(body.email)) {
+    errors.email = 'Must be a valid email address';
+  }
+  if (typeof body.idempotencyKey !== 'string' || body.idempotencyKey.trim() === '') {
+    errors.idempotencyKey = 'Required';
+  }
 
-const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+  return Object.keys(errors).length > 0 ? errors : null;
+};
 
-// --- API Handler ---
-export async function POST(req: NextRequest) {
-  try {
-    const body = (await req.json()) as TransactionRequest;
-    const { email, amount, idempotencyKey } = body;
+// Pluggable backend (memory or file) configured through TX_STORE_* env vars
+const processedTransactions = getTransactionStore();
+const paymentOperations = getOperationStore();
+const inFlightTransactions = getInFlightRegistry('charges');
 
-    // Basic validation
-    if (!email || !amount || !idempotencyKey) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+const clientIpConfig = readClientIpConfig();
+
+// Every X-Forwarded-For hop but the last is whatever the client sent, so a
+// fresh value per request would get a fresh rate-limit window. Only the hop
+// our own proxy appended is trusted, and only when we're told there is one.
+// Null when there's no address at all (`next dev` and `next start` never set
+// `req.ip`); the IP rule is skipped then rather than shared by every client.
+const getClientIp = (req: NextRequest): string | null => {
+  if (clientIpConfig.trustProxy) {
+    const proxyHop = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+    if (proxyHop) return proxyHop;
+  }
+  return req.ip || null;
+};
+
+// --- Charge Processing ---
+// Everything after validation. Split out of POST so that every response it
+// produces gets the chaos debug headers in one place.
+const processCharge = async (
+  { email, amount, currency, idempotencyKey }: TransactionRequest,
+  clientIp: string | null,
+  chaos: Chaos
+): Promise<NextResponse> => {
+  const fingerprint = fingerprintPayload({ email, amount, currency });
+
+  // 0. SINGLE-FLIGHT CHECK
+  // A retry or resume can arrive while the first request is still sleeping in
+  // the delayed branch. Only one request may own a key at a time; the others
+  // are told to come back later instead of processing it a second time.
+  const inFlight = inFlightTransactions.get(idempotencyKey);
+  if (inFlight) {
+    // A refund or void holding the key isn't key reuse, just bad timing
+    if (inFlight.operation === 'charge' && inFlight.fingerprint !== fingerprint) {
+      console.log(`[API] Idempotency key reused with different payload: ${idempotencyKey}`);
+      return keyMismatchResponse(idempotencyKey);
     }
 
+    console.log(`[API] Key already in flight: ${idempotencyKey}`);
+    return inProgressResponse(idempotencyKey);
+  }
+
+  // Claimed synchronously right after the check, so no other request can
+  // slip in between. Released in `finally` whatever the outcome.
+  inFlightTransactions.acquire(idempotencyKey, fingerprint);
+
+  try {
     // 1. IDEMPOTENCY CHECK
     // If we've already processed this key, return the saved result immediately.
     // This prevents creating duplicate records if the client retries a request
     // where the response was lost due to a network issue.
-    if (processedTransactions.has(idempotencyKey)) {
+    const existing = await processedTransactions.get(idempotencyKey);
+    if (existing) {
+      // The key is only a valid replay if the body matches the original request.
+      // Reusing it for a different charge is a client bug, not a retry.
+      if (existing.fingerprint && existing.fingerprint !== fingerprint) {
+        console.log(`[API] Idempotency key reused with different payload: ${idempotencyKey}`);
+        return keyMismatchResponse(idempotencyKey);
+      }
+
       console.log(`[API] Idempotent replay for key: ${idempotencyKey}`);
       return NextResponse.json(
         {
@@ -45,25 +113,50 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // 1b. VOID CHECK
+    // A pending charge can be cancelled before it ever reaches us. Once voided,
+    // no retry or resume may push it through.
+    const operation = await paymentOperations.get(operationLinkKey(idempotencyKey));
+    if (operation?.kind === 'void') {
+      console.log(`[API] Rejecting voided charge: ${idempotencyKey}`);
+      return NextResponse.json(
+        {
+          error: 'Transaction was cancelled before it was processed',
+          code: 'VOIDED',
+          id: idempotencyKey,
+          voidId: operation.id,
+        },
+        { status: 410 }
+      );
+    }
+
+    // 1c. RATE LIMIT
+    // Only new work counts: replays and in-flight answers returned above.
+    const limited = limitCharge({ email, ip: clientIp }, idempotencyKey);
+    if (!limited.allowed) {
+      console.log(`[API] Rate limited by ${limited.limit} for key: ${idempotencyKey}`);
+      return rateLimitedResponse(limited.limit, limited.retryAfterMs);
+    }
+
     // 2. SIMULATE RANDOM NETWORK/SERVICE BEHAVIOR
-    const random = Math.random();
+    // Rates come from the active chaos profile (see src/lib/chaos.ts)
 
-    // Case A: Temporary Failure (503) - 30% chance
-    if (random < 0.3) {
+    // Case A: Temporary Failure (503)
+    if (chaos.roll('503', chaos.settings.unavailableRate)) {
       console.log(`[API] Simulating 503 Service Unavailable for key: ${idempotencyKey}`);
-      return NextResponse.json({ error: 'Service temporarily unavailable' }, { status: 503 });
+      return unavailableResponse();
     }
 
-    // Case B: Delayed Success - 20% chance
-    if (random < 0.5) {
-      console.log(`[API] Simulating delayed success for key: ${idempotencyKey}`);
-      await delay(5000 + Math.random() * 5000); // 5-10 second delay
+    // Case B: Delayed Success
+    const delayedMs = await chaos.maybeDelay();
+    if (delayedMs > 0) {
+      console.log(`[API] Simulated ${delayedMs}ms delayed success for key: ${idempotencyKey}`);
     }
 
     // Case C: Immediate Success (Default)
     // Save the transaction to our "database"
-    processedTransactions.set(idempotencyKey, { email, amount, date: new Date() });
-    
+    await processedTransactions.set(idempotencyKey, { email, amount, currency, date: new Date(), fingerprint });
+
     console.log(`[API] Successfully processed key: ${idempotencyKey}`);
     return NextResponse.json(
       {
@@ -73,9 +166,45 @@ export async function POST(req: NextRequest) {
       },
       { status: 200 }
     );
+  } finally {
+    inFlightTransactions.release(idempotencyKey);
+  }
+};
+
+// --- API Handlers ---
+// GET lists the server's ledger of processed charges.
+// Filters: email, from, to, minAmount, maxAmount. Paging: limit, cursor.
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const { query, errors } = parseLedgerQuery(searchParams);
+    if (errors) {
+      return NextResponse.json({ error: 'Invalid query', fields: errors }, { status: 400 });
+    }
+
+    return NextResponse.json(await queryLedger(query), { status: 200 });
+  } catch (error) {
+    console.error('[API] Failed to list ledger:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    const errors = body && typeof body === 'object' ? validateChargeRequest(body) : { body: 'Must be a JSON object' };
+    if (errors) {
+      return NextResponse.json({ error: 'Invalid request', fields: errors }, { status: 400 });
+    }
+    const { email, amount, currency, idempotencyKey } = body as TransactionRequest;
+
+    // Scoped to the key, so each retry of it gets its own reproducible roll
+    const chaos = createChaos(req, 'form-consistent', idempotencyKey);
+    return chaos.annotate(await processCharge({ email, amount, currency, idempotencyKey }, getClientIp(req), chaos));
 
   } catch (error) {
     console.error('[API] Internal Server Error:', error);
     return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
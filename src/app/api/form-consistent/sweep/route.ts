@@ -0,0 +1,21 @@
+// src/app/api/form-consistent/sweep/route.ts
+import { NextResponse } from 'next/server';
+import { getOperationStore, getTransactionStore } from '@/lib/transaction-store';
+
+// --- API Handler ---
+// Removes idempotency keys whose TTL has elapsed, from both the charge store
+// and the refund/void store. Expired keys are already ignored on read, so
+// this only reclaims storage.
+export async function POST() {
+  try {
+    const [transactions, operations] = await Promise.all([
+      getTransactionStore().sweepExpired(),
+      getOperationStore().sweepExpired(),
+    ]);
+    console.log(`[API] Swept ${transactions} expired charge key(s) and ${operations} operation key(s)`);
+    return NextResponse.json({ swept: { transactions, operations } }, { status: 200 });
+  } catch (error) {
+    console.error('[API] Failed to sweep expired keys:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
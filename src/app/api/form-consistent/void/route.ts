@@ -0,0 +1,6 @@
+// src/app/api/form-consistent/void/route.ts
+import { createOperationHandler } from '@/lib/payment-operations';
+
+// --- API Handler ---
+// Cancels a charge that hasn't been processed yet. Body: { transactionId, idempotencyKey }
+export const POST = createOperationHandler('void');
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createChaos } from '@/lib/chaos';
 
 // --- 1. GENERATE 500 UNIQUE FACTS ---
 // We use combinatorics to ensure every fact is unique and readable.
@@ -36,34 +37,41 @@ export async function GET(req: NextRequest) {
   const page = parseInt(searchParams.get('page') || '1');
   const PAGE_SIZE = 10;
 
+  // Fault rates come from the active chaos profile (see src/lib/chaos.ts)
+  const chaos = createChaos(req, 'quirky', `page-${page}`);
+
   // Artificial Delay
-  await new Promise((resolve) => setTimeout(resolve, 400));
+  await chaos.maybeDelay();
+
+  if (chaos.roll('503', chaos.settings.unavailableRate)) {
+    return chaos.annotate(NextResponse.json({ error: 'Service temporarily unavailable' }, { status: 503 }));
+  }
 
   const start = (page - 1) * PAGE_SIZE;
   const end = start + PAGE_SIZE;
 
   // STOP CONDITION: If requested page is beyond data
   if (start >= FACTS_DB.length) {
-    return NextResponse.json([]);
+    return chaos.annotate(NextResponse.json([]));
   }
 
   let result = FACTS_DB.slice(start, end);
 
   // --- INJECT CHAOS (Assignment Constraints) ---
   
-  // CONSTRAINT 1: "Sometimes returns fewer items" (30% chance)
-  if (result.length === PAGE_SIZE && Math.random() > 0.7) {
+  // CONSTRAINT 1: "Sometimes returns fewer items" (30% chance when flaky)
+  if (result.length === PAGE_SIZE && chaos.roll('short-page', chaos.settings.shortPageRate)) {
     // Drop the last 3 items
     result = result.slice(0, 7); 
   }
 
-  // CONSTRAINT 2: "Returns overlapping items" (40% chance)
+  // CONSTRAINT 2: "Returns overlapping items" (40% chance when flaky)
   // We take items from the PREVIOUS page and put them at the start of this page.
   // The frontend MUST filter these out.
-  if (page > 1 && Math.random() > 0.6) {
+  if (page > 1 && chaos.roll('overlap', chaos.settings.overlapRate)) {
     const previousItems = FACTS_DB.slice(start - 2, start);
     result = [...previousItems, ...result]; 
   }
 
-  return NextResponse.json(result);
+  return chaos.annotate(NextResponse.json(result));
 }
\ No newline at end of file
@@ -70,6 +70,14 @@ const Page = () => {
         ))}
       </div>
 
+      {/* Tools */}
+      <a
+        href="/chaos"
+        className="mt-8 font-mono text-xs underline hover:no-underline opacity-60 hover:opacity-100"
+      >
+        chaos control panel
+      </a>
+
       {/* Footer / Decorative minimal element */}
       <div className="mt-16 h-px w-12 bg-black opacity-20"></div>
     </div>
@@ -0,0 +1,279 @@
+// src/lib/chaos.ts
+// Shared fault injection for the mock API routes. Every random decision goes
+// through a seeded PRNG, so a failing scenario can be replayed exactly by
+// sending the same seed again.
+import { NextRequest, NextResponse } from 'next/server';
+
+// --- Types ---
+export type ChaosRoute = 'form-consistent' | 'quirky' | 'events';
+export type ChaosProfileName = 'calm' | 'flaky' | 'hostile';
+
+export interface ChaosSettings {
+  unavailableRate: number; // Chance of answering 503
+  delayRate: number; // Chance of an added delay (for requests that didn't 503)
+  delayMinMs: number;
+  delayMaxMs: number;
+  shortPageRate: number; // Chance of dropping the tail of a page
+  overlapRate: number; // Chance of repeating items from the previous page
+  reorderRate: number; // Chance an order's events are delivered shuffled
+  duplicateRate: number; // Chance an event is delivered a second time
+  disconnectRate: number; // Chance the stream drops after an event
+  regressionRate: number; // Chance an order gets a bogus event moving its status backwards
+}
+
+type ChaosProfile = Record<ChaosRoute, ChaosSettings>;
+
+// --- Profiles ---
+// "flaky" reproduces the behaviour the routes always had and is the default.
+const NO_FAULTS: ChaosSettings = {
+  unavailableRate: 0,
+  delayRate: 0,
+  delayMinMs: 0,
+  delayMaxMs: 0,
+  shortPageRate: 0,
+  overlapRate: 0,
+  reorderRate: 0,
+  duplicateRate: 0,
+  disconnectRate: 0,
+  regressionRate: 0,
+};
+
+export const CHAOS_PROFILES: Record<ChaosProfileName, ChaosProfile> = {
+  calm: {
+    'form-consistent': NO_FAULTS,
+    quirky: NO_FAULTS,
+    events: NO_FAULTS,
+  },
+  flaky: {
+    'form-consistent': { ...NO_FAULTS, unavailableRate: 0.3, delayRate: 0.3, delayMinMs: 5000, delayMaxMs: 10000 },
+    quirky: { ...NO_FAULTS, delayRate: 1, delayMinMs: 400, delayMaxMs: 400, shortPageRate: 0.3, overlapRate: 0.4 },
+    events: { ...NO_FAULTS, reorderRate: 1, duplicateRate: 0.2, disconnectRate: 0.02, regressionRate: 0.05, delayRate: 0.3, delayMinMs: 500, delayMaxMs: 3000 },
+  },
+  hostile: {
+    'form-consistent': { ...NO_FAULTS, unavailableRate: 0.6, delayRate: 0.5, delayMinMs: 5000, delayMaxMs: 15000 },
+    quirky: { ...NO_FAULTS, unavailableRate: 0.2, delayRate: 1, delayMinMs: 400, delayMaxMs: 2000, shortPageRate: 0.6, overlapRate: 0.7 },
+    events: { ...NO_FAULTS, reorderRate: 1, duplicateRate: 0.5, disconnectRate: 0.08, regressionRate: 0.15, delayRate: 0.6, delayMinMs: 1000, delayMaxMs: 6000 },
+  },
+};
+
+export const CHAOS_ROUTES: ChaosRoute[] = ['form-consistent', 'quirky', 'events'];
+
+export const isChaosProfileName = (value: unknown): value is ChaosProfileName =>
+  typeof value === 'string' && value in CHAOS_PROFILES;
+
+const envProfile = () => (isChaosProfileName(process.env.CHAOS_PROFILE) ? process.env.CHAOS_PROFILE : 'flaky');
+
+// --- Runtime Configuration ---
+// The /chaos control panel changes the default profile and tweaks individual
+// settings per route without a restart. Requests that pick a profile
+// explicitly (header or query) get that profile untouched.
+export type ChaosOverrides = Partial<Record<ChaosRoute, Partial<ChaosSettings>>>;
+
+export interface ChaosConfig {
+  profile: ChaosProfileName;
+  overrides: ChaosOverrides;
+}
+
+export interface ChaosConfigView extends ChaosConfig {
+  // Effective settings per route: the profile's values with overrides applied
+  routes: Record<ChaosRoute, ChaosSettings>;
+}
+
+const globalForConfig = globalThis as unknown as { __bhumioChaosConfig?: ChaosConfig };
+
+const getConfig = (): ChaosConfig => {
+  if (!globalForConfig.__bhumioChaosConfig) {
+    globalForConfig.__bhumioChaosConfig = { profile: envProfile(), overrides: {} };
+  }
+  return globalForConfig.__bhumioChaosConfig;
+};
+
+const resolveSettings = (config: ChaosConfig, route: ChaosRoute): ChaosSettings => ({
+  ...CHAOS_PROFILES[config.profile][route],
+  ...config.overrides[route],
+});
+
+export const getChaosConfig = (): ChaosConfigView => {
+  const config = getConfig();
+  return {
+    ...config,
+    routes: {
+      'form-consistent': resolveSettings(config, 'form-consistent'),
+      quirky: resolveSettings(config, 'quirky'),
+      events: resolveSettings(config, 'events'),
+    },
+  };
+};
+
+const RATE_FIELDS = [
+  'unavailableRate',
+  'delayRate',
+  'shortPageRate',
+  'overlapRate',
+  'reorderRate',
+  'duplicateRate',
+  'disconnectRate',
+  'regressionRate',
+] as const;
+const DELAY_FIELDS = ['delayMinMs', 'delayMaxMs'] as const;
+
+// Validates the whole update before applying any of it. Returns field-level
+// errors keyed as `route.field`, or null when the update was applied.
+// Choosing a profile starts from its presets, dropping earlier overrides.
+export const updateChaosConfig = (update: {
+  profile?: unknown;
+  overrides?: Record<string, Record<string, unknown>>;
+}): Record<string, string> | null => {
+  const errors: Record<string, string> = {};
+  const current = getConfig();
+
+  if (update.profile !== undefined && !isChaosProfileName(update.profile)) {
+    errors.profile = `Must be one of ${Object.keys(CHAOS_PROFILES).join(', ')}`;
+  }
+  const profile = isChaosProfileName(update.profile) ? update.profile : current.profile;
+
+  const overrides: ChaosOverrides = update.profile !== undefined ? {} : { ...current.overrides };
+  Object.entries(update.overrides ?? {}).forEach(([route, fields]) => {
+    if (!CHAOS_ROUTES.includes(route as ChaosRoute)) {
+      errors[route] = 'Unknown route';
+      return;
+    }
+    const next: Partial<ChaosSettings> = { ...overrides[route as ChaosRoute] };
+
+    Object.entries(fields ?? {}).forEach(([field, value]) => {
+      const key = `${route}.${field}`;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors[key] = 'Must be a number';
+      } else if ((RATE_FIELDS as readonly string[]).includes(field)) {
+        if (value < 0 || value > 1) errors[key] = 'Must be between 0 and 1';
+        else next[field as (typeof RATE_FIELDS)[number]] = value;
+      } else if ((DELAY_FIELDS as readonly string[]).includes(field)) {
+        if (value < 0) errors[key] = 'Must not be negative';
+        else next[field as (typeof DELAY_FIELDS)[number]] = Math.round(value);
+      } else {
+        errors[key] = 'Unknown setting';
+      }
+    });
+
+    const merged = { ...CHAOS_PROFILES[profile][route as ChaosRoute], ...next };
+    if (merged.delayMinMs > merged.delayMaxMs) {
+      errors[`${route}.delayMinMs`] = 'Must not exceed the maximum delay';
+    }
+    overrides[route as ChaosRoute] = next;
+  });
+
+  if (Object.keys(errors).length > 0) return errors;
+
+  globalForConfig.__bhumioChaosConfig = { profile, overrides };
+  return null;
+};
+
+export const resetChaosConfig = () => {
+  globalForConfig.__bhumioChaosConfig = { profile: envProfile(), overrides: {} };
+};
+
+// --- Seeded PRNG ---
+// FNV-1a turns any string seed into 32 bits; mulberry32 turns those bits into
+// a fast, well-distributed stream of floats in [0, 1).
+const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// How many times each (seed, scope) has been rolled. Mixing the count into the
+// seed means retries of the same key see fresh rolls, while a replay of the
+// same sequence of calls with the same seed still sees identical faults.
+const globalForChaos = globalThis as unknown as { __bhumioChaosCalls?: Map<string, number> };
+
+const nextCallIndex = (key: string) => {
+  if (!globalForChaos.__bhumioChaosCalls) globalForChaos.__bhumioChaosCalls = new Map();
+  const calls = globalForChaos.__bhumioChaosCalls;
+  const index = calls.get(key) ?? 0;
+  calls.set(key, index + 1);
+  return index;
+};
+
+// --- Per-request Context ---
+export interface Chaos {
+  profile: ChaosProfileName;
+  seed: string;
+  settings: ChaosSettings;
+  // True with the given probability; the fault is recorded when it fires
+  roll(fault: string, rate: number): boolean;
+  // A raw draw in [0, 1) from the same stream, for faults that need more than
+  // yes/no. Nothing is recorded, so long-lived responses can draw forever.
+  random(): number;
+  // Rolls `delayRate`; on a hit, waits a random time in the configured range.
+  // Resolves to the delay applied (0 when it didn't fire).
+  maybeDelay(): Promise<number>;
+  // Adds the debug headers describing what fired
+  annotate<T extends NextResponse>(response: T): T;
+}
+
+// Profile: `x-chaos-profile` header, `?chaos=` query, or else the runtime
+// config (which starts from CHAOS_PROFILE env, or "flaky").
+// Seed: `x-chaos-seed` header, `?chaosSeed=` query, CHAOS_SEED env, or a fresh
+// random seed. The seed is always echoed back, so any run can be replayed.
+// `scope` should identify the resource being requested (e.g. an idempotency
+// key or page number) so that concurrent requests don't shift each other's rolls.
+export const createChaos = (req: NextRequest, route: ChaosRoute, scope: string): Chaos => {
+  const { searchParams } = new URL(req.url);
+
+  const requestedProfile = req.headers.get('x-chaos-profile') ?? searchParams.get('chaos');
+  const config = getConfig();
+  const profile = isChaosProfileName(requestedProfile) ? requestedProfile : config.profile;
+  const settings = isChaosProfileName(requestedProfile)
+    ? CHAOS_PROFILES[requestedProfile][route]
+    : resolveSettings(config, route);
+
+  const requestedSeed =
+    req.headers.get('x-chaos-seed') ?? searchParams.get('chaosSeed') ?? process.env.CHAOS_SEED;
+  const seed = requestedSeed ?? Math.random().toString(36).slice(2, 10);
+
+  // A fresh random seed is only ever used once, so there's nothing to count
+  const callKey = `${seed}:${route}:${scope}`;
+  const random = createRandom(`${callKey}:${requestedSeed ? nextCallIndex(callKey) : 0}`);
+  const fired: string[] = [];
+
+  return {
+    profile,
+    seed,
+    settings,
+    roll(fault, rate) {
+      const hit = random() < rate;
+      if (hit) fired.push(fault);
+      return hit;
+    },
+    random,
+    async maybeDelay() {
+      const { delayRate, delayMinMs, delayMaxMs } = settings;
+      const hit = random() < delayRate;
+      const ms = Math.round(delayMinMs + random() * (delayMaxMs - delayMinMs));
+      if (!hit || ms <= 0) return 0;
+
+      fired.push(`delay=${ms}ms`);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms;
+    },
+    annotate(response) {
+      response.headers.set('X-Chaos-Profile', profile);
+      response.headers.set('X-Chaos-Seed', seed);
+      response.headers.set('X-Chaos-Faults', fired.length > 0 ? fired.join(',') : 'none');
+      return response;
+    },
+  };
+};
@@ -0,0 +1,158 @@
+// src/lib/event-feed.ts
+// Server-side log behind GET /api/events. The feed produces order lifecycles
+// and appends each event to a bounded buffer under the next id, so a client
+// that reconnects with Last-Event-ID can replay whatever it missed.
+// Reordering and delays happen here, before an event gets its id: log order
+// is the order the "broker" received events in, not the order they happened.
+import { createRandom, getChaosConfig } from '@/lib/chaos';
+import { formatOrderId, generateCancelledOrder, generateOrderLifecycle, ServerEvent } from '@/lib/order-events';
+
+// --- Types ---
+export interface FeedEntry {
+  eventId: number; // Starts at 1, +1 per appended event
+  event: ServerEvent;
+}
+
+// expired: some events after the cursor were already dropped from the buffer
+// unknown: the cursor is ahead of the log (the server restarted)
+export type ResyncReason = 'expired' | 'unknown';
+
+export interface FeedReplay {
+  entries: FeedEntry[];
+  resync: ResyncReason | null; // Set when `entries` is the whole buffer instead
+}
+
+const BUFFER_SIZE = 1000;
+const EVENT_SPACING_MS = 1000; // Gap between an order's events before any chaos
+const ORDER_INTERVAL_MIN_MS = 2000;
+const ORDER_INTERVAL_MAX_MS = 5000;
+// Keep producing for a while after the last subscriber leaves, so a page that
+// reloads or drops offline has something to catch up on
+const IDLE_STOP_MS = 5 * 60 * 1000;
+// Share of orders that get cancelled and deleted instead of delivered
+const CANCELLATION_RATE = 0.25;
+
+const CUSTOMERS = ['Ada Lovelace', 'Alan Turing', 'Grace Hopper', 'Katherine Johnson', 'Linus Torvalds', 'Margaret Hamilton'];
+
+// Fisher-Yates with the feed's seeded random, so a seed replays the same log
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// --- Feed ---
+export class EventFeed {
+  private buffer: FeedEntry[] = [];
+  private lastId = 0;
+  private listeners = new Set<(entry: FeedEntry) => void>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private idleSince = Date.now();
+  // Versions are per order, so an order id must never be handed out twice.
+  // Ids are a counter under an epoch taken when the feed starts: a restarted
+  // server counts from 1 again, and the page may still hold the old orders.
+  private readonly epoch = Date.now().toString(36).toUpperCase();
+  private orderCount = 0;
+
+  constructor(private readonly random: () => number) {}
+
+  get oldestId() {
+    return this.buffer[0]?.eventId ?? this.lastId + 1;
+  }
+
+  get latestId() {
+    return this.lastId;
+  }
+
+  // Everything after `cursor`. A cursor the buffer can't serve gets the whole
+  // buffer back with the reason, and the client decides what a gap means.
+  since(cursor: number): FeedReplay {
+    if (cursor > this.lastId) return { entries: [...this.buffer], resync: 'unknown' };
+    if (cursor < this.oldestId - 1) return { entries: [...this.buffer], resync: 'expired' };
+    return { entries: this.buffer.filter((entry) => entry.eventId > cursor), resync: null };
+  }
+
+  // Returns the unsubscribe function. The first subscriber starts production.
+  subscribe(listener: (entry: FeedEntry) => void): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) this.produceOrder();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.idleSince = Date.now();
+    };
+  }
+
+  private append(event: ServerEvent) {
+    const entry = { eventId: ++this.lastId, event };
+    this.buffer.push(entry);
+    if (this.buffer.length > BUFFER_SIZE) this.buffer.shift();
+    this.listeners.forEach((listener) => listener(entry));
+  }
+
+  // Each order's events are appended one spacing apart, shuffled when the
+  // reorder roll hits, and any one of them may be held back by an extra delay.
+  // Rates are read per order so changes on the /chaos page apply right away.
+  private produceOrder() {
+    this.timer = undefined;
+    if (this.listeners.size === 0 && Date.now() - this.idleSince > IDLE_STOP_MS) {
+      console.log('[Events] No subscribers, pausing the feed');
+      return;
+    }
+
+    const settings = getChaosConfig().routes.events;
+    const random = this.random;
+    const id = formatOrderId(this.epoch, ++this.orderCount);
+
+    const order = {
+      customer: CUSTOMERS[Math.floor(random() * CUSTOMERS.length)],
+      total: 500 + Math.floor(random() * 20000),
+      currency: 'USD' as const,
+    };
+    const lifecycle =
+      random() < CANCELLATION_RATE
+        ? generateCancelledOrder(id, Date.now(), order, random() < 0.5)
+        : generateOrderLifecycle(id, Date.now(), order, `1Z${Math.floor(random() * 1e8).toString().padStart(8, '0')}`);
+
+    // A misbehaving producer: a newer version that moves the order back to
+    // an earlier status (or revives a deleted one). The page must refuse it
+    // rather than apply it.
+    if (random() < settings.regressionRate) {
+      const last = lifecycle[lifecycle.length - 1];
+      lifecycle.push({
+        ...last,
+        type: 'updated',
+        version: last.version + 1,
+        timestamp: last.timestamp + 1000,
+        payload: { status: random() < 0.5 ? 'PENDING' : 'CONFIRMED' },
+      });
+    }
+
+    const ordered = random() < settings.reorderRate ? shuffle(lifecycle, random) : lifecycle;
+
+    ordered.forEach((event, i) => {
+      const delayed = random() < settings.delayRate;
+      const extra = delayed
+        ? Math.round(settings.delayMinMs + random() * (settings.delayMaxMs - settings.delayMinMs))
+        : 0;
+      setTimeout(() => this.append(event), i * EVENT_SPACING_MS + extra);
+    });
+
+    const next = ORDER_INTERVAL_MIN_MS + random() * (ORDER_INTERVAL_MAX_MS - ORDER_INTERVAL_MIN_MS);
+    this.timer = setTimeout(() => this.produceOrder(), next);
+  }
+}
+
+// One feed per server process, shared by every connection
+const globalForFeed = globalThis as unknown as { __bhumioEventFeed?: EventFeed };
+
+export const getEventFeed = (): EventFeed => {
+  if (!globalForFeed.__bhumioEventFeed) {
+    const seed = process.env.CHAOS_SEED ?? Math.random().toString(36).slice(2, 10);
+    globalForFeed.__bhumioEventFeed = new EventFeed(createRandom(`${seed}:events-feed`));
+  }
+  return globalForFeed.__bhumioEventFeed;
+};
@@ -0,0 +1,11 @@
+// src/lib/fingerprint.ts
+import { createHash } from 'crypto';
+
+// Stable hash of the fields that define a request. Keys are sorted so that
+// `{ a, b }` and `{ b, a }` produce the same fingerprint.
+export const fingerprintPayload = (payload: Record<string, unknown>): string => {
+  const canonical = Object.keys(payload)
+    .sort()
+    .map((key) => [key, payload[key]]);
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+};
@@ -0,0 +1,43 @@
+// src/lib/idempotency-responses.ts
+// Responses shared by every endpoint that takes an idempotency key, so the
+// client can handle charges, refunds and voids the same way.
+import { NextResponse } from 'next/server';
+
+// How long a client should wait before asking again about an in-flight key
+export const IN_FLIGHT_RETRY_AFTER_SECONDS = 2;
+// How long a client should back off after a simulated outage
+export const UNAVAILABLE_RETRY_AFTER_SECONDS = 1;
+
+export const keyMismatchResponse = (idempotencyKey: string) =>
+  NextResponse.json(
+    {
+      error: 'Idempotency key was already used with a different payload',
+      code: 'IDEMPOTENCY_KEY_MISMATCH',
+      id: idempotencyKey,
+    },
+    { status: 422 }
+  );
+
+export const inProgressResponse = (idempotencyKey: string, error = 'Transaction is already being processed') =>
+  NextResponse.json(
+    {
+      error,
+      code: 'IN_PROGRESS',
+      id: idempotencyKey,
+    },
+    { status: 409, headers: { 'Retry-After': String(IN_FLIGHT_RETRY_AFTER_SECONDS) } }
+  );
+
+export const unavailableResponse = () =>
+  NextResponse.json(
+    { error: 'Service temporarily unavailable' },
+    { status: 503, headers: { 'Retry-After': String(UNAVAILABLE_RETRY_AFTER_SECONDS) } }
+  );
+
+// `limit` says which rule tripped ('email' or 'ip'); Retry-After is when a
+// slot frees up, rounded up to whole seconds
+export const rateLimitedResponse = (limit: string, retryAfterMs: number) =>
+  NextResponse.json(
+    { error: `Too many payments for this ${limit === 'ip' ? 'address' : 'email'}`, code: 'RATE_LIMITED', limit },
+    { status: 429, headers: { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) } }
+  );
@@ -0,0 +1,43 @@
+// src/lib/in-flight-registry.ts
+
+// --- Types ---
+export interface InFlightEntry {
+  fingerprint: string;
+  operation: string; // What holds the key, e.g. 'charge' or 'refund'
+  startedAt: number;
+}
+
+// Tracks idempotency keys that are currently being processed so a retry that
+// arrives mid-flight can't run the same operation a second time.
+// All methods are synchronous on purpose: checking and claiming a key happen
+// in the same tick, so two requests can never both claim it.
+export class InFlightRegistry {
+  private entries = new Map<string, InFlightEntry>();
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  acquire(key: string, fingerprint: string, operation = 'charge') {
+    this.entries.set(key, { fingerprint, operation, startedAt: Date.now() });
+  }
+
+  release(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+// One registry per namespace (e.g. charges, refunds), shared across hot reloads
+const globalForRegistry = globalThis as unknown as { __bhumioInFlight?: Map<string, InFlightRegistry> };
+
+export const getInFlightRegistry = (namespace: string): InFlightRegistry => {
+  if (!globalForRegistry.__bhumioInFlight) {
+    globalForRegistry.__bhumioInFlight = new Map();
+  }
+  let registry = globalForRegistry.__bhumioInFlight.get(namespace);
+  if (!registry) {
+    registry = new InFlightRegistry();
+    globalForRegistry.__bhumioInFlight.set(namespace, registry);
+  }
+  return registry;
+};
@@ -0,0 +1,147 @@
+// src/lib/ledger.ts
+// Read side of the payment store: lists processed charges with filters and
+// cursor pagination for GET /api/form-consistent.
+import { getOperationStore, getTransactionStore, operationLinkKey } from '@/lib/transaction-store';
+import { CURRENCY_CODES, CurrencyCode, isCurrencyCode } from '@/lib/money';
+
+// --- Types ---
+export interface LedgerEntry {
+  id: string; // Idempotency key of the charge
+  email: string;
+  amount: number; // Integer minor units
+  currency: CurrencyCode;
+  date: string; // ISO timestamp of when the server processed it
+  refundId?: string;
+}
+
+export interface LedgerPage {
+  items: LedgerEntry[];
+  nextCursor: string | null; // Pass back as `cursor` to get the next page
+}
+
+export interface LedgerQuery {
+  email?: string;
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, inclusive
+  currency?: CurrencyCode;
+  minAmount?: number; // Minor units, inclusive
+  maxAmount?: number;
+  limit: number;
+  cursor?: { date: number; id: string };
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// --- Cursor ---
+// Opaque to clients: the sort key of the last item on the previous page.
+// Ordering is newest first, ties broken by id, so the cursor is stable even
+// when new charges are recorded between page requests.
+const encodeCursor = (entry: LedgerEntry) =>
+  Buffer.from(`${Date.parse(entry.date)}:${entry.id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): LedgerQuery['cursor'] | null => {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  const date = Number(decoded.slice(0, separator));
+  if (separator < 1 || !Number.isFinite(date)) return null;
+  return { date, id: decoded.slice(separator + 1) };
+};
+
+// --- Query Parsing ---
+// Returns the parsed query, or field-level errors for anything unreadable
+export const parseLedgerQuery = (
+  params: URLSearchParams
+): { query: LedgerQuery; errors: null } | { query: null; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+
+  const readNumber = (name: string) => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) errors[name] = 'Must be a number';
+    return value;
+  };
+
+  // Dates accept ISO strings or epoch milliseconds
+  const readDate = (name: string) => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(value)) errors[name] = 'Must be an ISO date or epoch milliseconds';
+    return value;
+  };
+
+  const limit = readNumber('limit') ?? DEFAULT_LIMIT;
+  if (!errors.limit && (limit < 1 || limit > MAX_LIMIT || !Number.isInteger(limit))) {
+    errors.limit = `Must be a whole number between 1 and ${MAX_LIMIT}`;
+  }
+
+  const currency = params.get('currency')?.toUpperCase() || undefined;
+  if (currency !== undefined && !isCurrencyCode(currency)) {
+    errors.currency = `Must be one of ${CURRENCY_CODES.join(', ')}`;
+  }
+
+  const rawCursor = params.get('cursor');
+  const cursor = rawCursor ? decodeCursor(rawCursor) : undefined;
+  if (cursor === null) errors.cursor = 'Invalid cursor';
+
+  const query: LedgerQuery = {
+    email: params.get('email')?.trim().toLowerCase() || undefined,
+    from: readDate('from'),
+    to: readDate('to'),
+    currency: currency as CurrencyCode | undefined,
+    minAmount: readNumber('minAmount'),
+    maxAmount: readNumber('maxAmount'),
+    limit,
+    cursor: cursor ?? undefined,
+  };
+
+  return Object.keys(errors).length > 0 ? { query: null, errors } : { query, errors: null };
+};
+
+// --- Listing ---
+export const queryLedger = async (query: LedgerQuery): Promise<LedgerPage> => {
+  const operations = getOperationStore();
+  const all = await getTransactionStore().entries();
+
+  const matching = all
+    .filter(([, tx]) => {
+      const time = tx.date.getTime();
+      if (query.email && tx.email.toLowerCase() !== query.email) return false;
+      if (query.from !== undefined && time < query.from) return false;
+      if (query.to !== undefined && time > query.to) return false;
+      if (query.currency && tx.currency !== query.currency) return false;
+      if (query.minAmount !== undefined && tx.amount < query.minAmount) return false;
+      if (query.maxAmount !== undefined && tx.amount > query.maxAmount) return false;
+      return true;
+    })
+    .sort(([idA, a], [idB, b]) => b.date.getTime() - a.date.getTime() || idA.localeCompare(idB));
+
+  // Skip everything up to and including the cursor's position
+  const { cursor } = query;
+  const afterCursor = cursor
+    ? matching.filter(([id, tx]) => {
+        const time = tx.date.getTime();
+        return time < cursor.date || (time === cursor.date && id.localeCompare(cursor.id) > 0);
+      })
+    : matching;
+
+  const page = afterCursor.slice(0, query.limit);
+  const items = await Promise.all(
+    page.map(async ([id, tx]): Promise<LedgerEntry> => {
+      const operation = await operations.get(operationLinkKey(id));
+      return {
+        id,
+        email: tx.email,
+        amount: tx.amount,
+        currency: tx.currency,
+        date: tx.date.toISOString(),
+        ...(operation?.kind === 'refund' && { refundId: operation.id }),
+      };
+    })
+  );
+
+  const hasMore = afterCursor.length > query.limit;
+  return { items, nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null };
+};
@@ -0,0 +1,62 @@
+// src/lib/lww.ts
+// Field-level last-writer-wins merge. Every field of a record is its own
+// register holding the value of the highest version that wrote it, so a late
+// partial update still lands in the fields nothing newer has touched instead
+// of being thrown away whole. Deletes are tombstones, which no write at or
+// below their version can undo.
+
+// --- Types ---
+// The version each field was last written at
+export type FieldVersions<T> = { [K in keyof T]?: number };
+
+export interface Tombstone {
+  version: number;
+  timestamp: number; // When the delete happened at the source (epoch ms)
+}
+
+export interface FieldMerge<T> {
+  values: Partial<T>;
+  versions: FieldVersions<T>;
+  won: (keyof T)[]; // Fields the update now owns
+  lost: (keyof T)[]; // Fields a newer (or winning same-version) write already owns
+}
+
+// --- Merge ---
+// `compareValues` settles two writes at the same version: positive when `a`
+// wins. It must depend on the values alone, so every replica picks the same
+// winner whatever order the writes arrive in.
+export const mergeFields = <T extends object>(
+  values: Partial<T>,
+  versions: FieldVersions<T>,
+  update: Partial<T>,
+  version: number,
+  compareValues: (field: keyof T, a: unknown, b: unknown) => number
+): FieldMerge<T> => {
+  const merge: FieldMerge<T> = { values: { ...values }, versions: { ...versions }, won: [], lost: [] };
+
+  (Object.keys(update) as (keyof T)[]).forEach((field) => {
+    const incoming = update[field];
+    if (incoming === undefined) return;
+
+    const current = versions[field];
+    const wins =
+      current === undefined ||
+      version > current ||
+      (version === current && compareValues(field, incoming, values[field]) > 0);
+
+    if (!wins) {
+      // Same version and value: a duplicate, neither won nor lost
+      if (version !== current || compareValues(field, incoming, values[field]) !== 0) merge.lost.push(field);
+      return;
+    }
+    merge.values[field] = incoming;
+    merge.versions[field] = version;
+    merge.won.push(field);
+  });
+
+  return merge;
+};
+
+// A tombstone wins over every write at or below its version
+export const isBuried = (tombstone: Tombstone | undefined, version: number) =>
+  tombstone !== undefined && version <= tombstone.version;
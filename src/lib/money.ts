@@ -0,0 +1,76 @@
+// src/lib/money.ts
+// Amounts travel and are stored as integers in the currency's minor unit
+// (cents, pence, yen...), together with an ISO 4217 code. Floats only ever
+// appear at the edges: parsing what the user typed and formatting for display.
+
+// --- Currencies ---
+// Minor-unit digits per ISO 4217
+export const CURRENCIES = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  INR: 2,
+  JPY: 0,
+} as const;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && value in CURRENCIES;
+
+// --- Parsing ---
+// Parses a decimal string such as "12.5" into minor units (1250) without going
+// through floating point. Returns null for anything that isn't a plain
+// non-negative number with at most the currency's number of decimals.
+export const toMinorUnits = (input: string, currency: CurrencyCode): number | null => {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(input.trim());
+  if (!match) return null;
+
+  const [, whole, fraction = ''] = match;
+  const digits = CURRENCIES[currency];
+  if (fraction.length > digits) return null;
+
+  const minor = Number(whole + fraction.padEnd(digits, '0'));
+  return Number.isSafeInteger(minor) ? minor : null;
+};
+
+// --- Formatting ---
+// `currency` is loose because it comes from stored data: anything that isn't a
+// known code is shown as a plain two-decimal number with the code after it,
+// since Intl.NumberFormat throws on a missing or malformed one
+export const formatMoney = (amountMinor: number, currency: string | undefined): string => {
+  if (!isCurrencyCode(currency)) {
+    const amount = (amountMinor / 100).toFixed(2);
+    return currency ? `${amount} ${currency}` : amount;
+  }
+  const digits = CURRENCIES[currency];
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amountMinor / 10 ** digits);
+};
+
+// --- Validation ---
+// Field-level errors for a charge's amount and currency, or null when both are
+// valid. Zero is allowed (card verification charges); negatives are not.
+export const validateMoney = (amount: unknown, currency: unknown): Record<string, string> | null => {
+  const errors: Record<string, string> = {};
+
+  if (!isCurrencyCode(currency)) {
+    errors.currency = `Must be one of ${CURRENCY_CODES.join(', ')}`;
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    errors.amount = 'Must be a number';
+  } else if (!Number.isSafeInteger(amount)) {
+    errors.amount = 'Must be a whole number of minor units (e.g. cents)';
+  } else if (amount < 0) {
+    errors.amount = 'Must not be negative';
+  }
+
+  return Object.keys(errors).length > 0 ? errors : null;
+};
@@ -0,0 +1,163 @@
+// src/lib/order-events.ts
+// Shared shape of the order events streamed by GET /api/events and consumed
+// by the out-of-order page, plus the rules for applying them: which of two
+// events is newer, and which status changes an order may go through.
+import { CurrencyCode } from '@/lib/money';
+
+// --- Types ---
+export type EventType = 'created' | 'updated' | 'deleted';
+
+// Listed in lifecycle order
+export const ORDER_STATUSES = ['PENDING', 'CONFIRMED', 'SHIPPED', 'DELIVERED', 'CANCELLED'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+
+export interface OrderPayload {
+  status: OrderStatus;
+  customer: string;
+  total: number; // Integer minor units
+  currency: CurrencyCode;
+  trackingNumber?: string; // Set by the carrier once the order ships
+}
+
+export type OrderField = keyof OrderPayload;
+export const ORDER_FIELDS: OrderField[] = ['status', 'customer', 'total', 'currency', 'trackingNumber'];
+
+export interface ServerEvent {
+  id: string; // Order id, e.g. "ORD-M7K2X1C0-14"
+  version: number; // Per-order sequence number, 1 for the first event
+  timestamp: number; // When the change happened at the source (epoch ms)
+  type: EventType;
+  // created: the whole order; updated: only the fields that changed (each
+  // merged on its own, see src/lib/lww.ts); deleted: nothing
+  payload: Partial<OrderPayload>;
+}
+
+// --- Ids ---
+// `ORD-<epoch>-<n>`: the feed counts orders under the time it started, so ids
+// from one feed sort by when the order was created
+export const formatOrderId = (epoch: string, counter: number) => `ORD-${epoch}-${counter}`;
+
+// Null for ids in any other shape, like the random ones older feeds used
+export const parseOrderId = (id: string): { epoch: string; counter: number } | null => {
+  const match = /^ORD-([0-9A-Z]+)-(\d+)$/.exec(id);
+  return match ? { epoch: match[1], counter: Number(match[2]) } : null;
+};
+
+// --- Lifecycle ---
+// The events one order goes through, in the order they happened
+export const generateOrderLifecycle = (
+  id: string,
+  t: number,
+  order: Omit<OrderPayload, 'status' | 'trackingNumber'>,
+  trackingNumber: string
+): ServerEvent[] => [
+  // 1. Initial Creation
+  { id, version: 1, timestamp: t, type: 'created', payload: { ...order, status: 'PENDING' } },
+
+  // 2. Status Update (Payment Confirmed)
+  { id, version: 2, timestamp: t + 2000, type: 'updated', payload: { status: 'CONFIRMED' } },
+
+  // 3. Status Update (Shipped)
+  { id, version: 3, timestamp: t + 5000, type: 'updated', payload: { status: 'SHIPPED' } },
+
+  // 4. Carrier Scan (only the tracking number)
+  { id, version: 4, timestamp: t + 6000, type: 'updated', payload: { trackingNumber } },
+
+  // 5. Status Update (Delivered)
+  { id, version: 5, timestamp: t + 9000, type: 'updated', payload: { status: 'DELIVERED' } },
+];
+
+// An order cancelled before it ships (after payment when `confirmed`) and
+// then removed, which leaves a tombstone on every client
+export const generateCancelledOrder = (
+  id: string,
+  t: number,
+  order: Omit<OrderPayload, 'status' | 'trackingNumber'>,
+  confirmed: boolean
+): ServerEvent[] => {
+  // 1. Initial Creation
+  const events: ServerEvent[] = [{ id, version: 1, timestamp: t, type: 'created', payload: { ...order, status: 'PENDING' } }];
+
+  // 2. Status Update (Payment Confirmed)
+  if (confirmed) events.push({ id, version: 2, timestamp: t + 2000, type: 'updated', payload: { status: 'CONFIRMED' } });
+
+  const version = events.length;
+  events.push(
+    // 3. Status Update (Cancelled)
+    { id, version: version + 1, timestamp: t + 4000, type: 'updated', payload: { status: 'CANCELLED' } },
+
+    // 4. Removal
+    { id, version: version + 2, timestamp: t + 6000, type: 'deleted', payload: {} }
+  );
+  return events;
+};
+
+// --- State Machine ---
+// Direct moves only. An order may skip ahead along these edges (the events in
+// between can still be on their way), but never move anywhere it couldn't
+// reach from its current status.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+export const canReachStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+  const seen = new Set<OrderStatus>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift() as OrderStatus;
+    if (current === to) return true;
+    ORDER_TRANSITIONS[current].forEach((next) => {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return false;
+};
+
+// --- Ordering ---
+// What decides which of two writes to the same order is newer. `version` is
+// optional because records saved before versions existed only have a time.
+export interface OrderStamp {
+  version?: number;
+  timestamp: number;
+  type: EventType;
+  status?: OrderStatus; // Missing on partial updates that don't touch it
+}
+
+const TYPE_RANK: Record<EventType, number> = { created: 0, updated: 1, deleted: 2 };
+
+// Positive when `a` supersedes `b`, negative when `b` does, 0 when they are
+// the same write (a duplicate). Versions decide when both sides have one;
+// timestamps are only the fallback, since producer clocks can collide or go
+// backwards. Equal versions (or times) fall through to a rule that depends on
+// content only, so every client picks the same winner whatever the arrival
+// order: deleted beats updated beats created, then the later status wins.
+export const compareOrderStamps = (a: OrderStamp, b: OrderStamp): number => {
+  const primary =
+    a.version !== undefined && b.version !== undefined ? a.version - b.version : a.timestamp - b.timestamp;
+  if (primary !== 0) return primary;
+
+  const rank = TYPE_RANK[a.type] - TYPE_RANK[b.type];
+  if (rank !== 0) return rank;
+
+  return statusRank(a.status) - statusRank(b.status);
+};
+
+const statusRank = (status?: OrderStatus) => (status ? ORDER_STATUSES.indexOf(status) : -1);
+
+// Two writes to the same field at the same version: the later status wins,
+// any other field compares its JSON, so the winner depends on content only
+export const compareFieldValues = (field: OrderField, a: unknown, b: unknown): number => {
+  if (field === 'status') return statusRank(a as OrderStatus | undefined) - statusRank(b as OrderStatus | undefined);
+  const [left, right] = [JSON.stringify(a) ?? '', JSON.stringify(b) ?? ''];
+  return left < right ? -1 : left > right ? 1 : 0;
+};
@@ -0,0 +1,516 @@
+// src/lib/order-log.ts
+// Event-sourced order store for the out-of-order page. Everything the page
+// learns goes into an append-only log, and the orders, the reorder buffer and
+// the quarantine are all derived by replaying that log through
+// `applyLogEntry`. Replaying a prefix of the log shows the state as of then.
+// Decisions that depend on the clock (giving up on a gap, compacting) are
+// logged as entries too, so a replay always reaches the same state as the
+// live run.
+import { FieldVersions, isBuried, mergeFields, Tombstone } from '@/lib/lww';
+import {
+  canReachStatus,
+  compareFieldValues,
+  compareOrderStamps,
+  isOrderStatus,
+  ORDER_FIELDS,
+  ORDER_TRANSITIONS,
+  OrderPayload,
+  parseOrderId,
+  ServerEvent,
+} from '@/lib/order-events';
+import { HeldEvent, ReorderBuffer } from '@/lib/reorder-buffer';
+
+// --- Types ---
+// Every payload field is optional: records saved before payloads were
+// structured lack most of them, and a field stays unset until an event
+// carrying it has been merged (e.g. a status-only update after a gap)
+export interface OrderRecord extends Partial<OrderPayload> {
+  id: string;
+  version?: number; // Highest version applied in sequence; missing on records saved before events were versioned
+  lastUpdated: number;
+  type: ServerEvent['type'];
+  fieldVersions?: FieldVersions<OrderPayload>; // Missing on records saved before field-level merging
+  tombstone?: Tombstone; // Set once deleted; the other fields keep their last values
+  missing?: number[]; // Versions we stopped waiting for; the history is incomplete
+}
+
+// An event that was newer than our record but broke the state machine
+export interface QuarantinedEvent {
+  event: ServerEvent;
+  reason: string;
+  at: number;
+  // Its status change skipped versions we never saw, so it can't be checked
+  // yet; it's tried again once they turn up (and is never dropped by the cap).
+  // A timeout gives up on it if they don't.
+  awaitingHistory?: boolean;
+}
+
+// event: one delivery from the stream (`streamId` is its SSE id)
+// timeout: we stopped waiting for the versions missing before an order's held
+// events, or (with nothing held) for the history its quarantined status changes need
+// import: orders saved by the page before the log existed
+// snapshot: the whole projection as of the `folded` entries compaction replaced
+export type LogEntry =
+  | { seq: number; at: number; kind: 'event'; event: ServerEvent; streamId: number | null }
+  | { seq: number; at: number; kind: 'timeout'; orderId: string }
+  | { seq: number; at: number; kind: 'import'; records: OrderRecord[] }
+  | {
+      seq: number;
+      at: number;
+      kind: 'snapshot';
+      folded: number;
+      records: OrderRecord[];
+      held: [string, HeldEvent[]][];
+      quarantine: QuarantinedEvent[];
+      forgotten: [string, number][];
+      forgottenUpTo: [string, number][];
+    };
+
+// What applying an entry did, for explaining how an order got its state
+export interface EntryOutcome {
+  // merged: late, but some of its fields were still newer than ours
+  result: 'applied' | 'held' | 'merged' | 'late' | 'quarantined' | 'timeout' | 'import' | 'snapshot';
+  note: string;
+}
+
+export interface OrderProjection {
+  orders: Map<string, OrderRecord>;
+  buffer: ReorderBuffer;
+  quarantine: QuarantinedEvent[]; // Newest first
+  // The last orders compaction dropped (oldest first), with the version they
+  // had reached. Their events are refused by id, so a dropped order never
+  // comes back.
+  forgotten: Map<string, number>;
+  // Per feed epoch, the highest order counter that has left `forgotten`.
+  // Events for an order we have no record of at or below it are refused too.
+  forgottenUpTo: Map<string, number>;
+}
+
+const QUARANTINE_LIMIT = 20;
+const FORGOTTEN_LIMIT = 200;
+
+export const createProjection = (): OrderProjection => ({
+  orders: new Map(),
+  buffer: new ReorderBuffer(),
+  quarantine: [],
+  forgotten: new Map(),
+  forgottenUpTo: new Map(),
+});
+
+export const entryOrderId = (entry: LogEntry): string | null => {
+  if (entry.kind === 'event') return entry.event.id;
+  if (entry.kind === 'timeout') return entry.orderId;
+  return null;
+};
+
+// --- Legacy Snapshots ---
+// Saved by earlier versions of the page, with the status inside a string
+// like "Order ORD-123 - SHIPPED"
+export interface LegacyOrderRecord extends Omit<OrderRecord, 'status'> {
+  payload: string;
+}
+
+export const upgradeStoredRecord = (record: OrderRecord | LegacyOrderRecord): OrderRecord | null => {
+  if (!('payload' in record)) return record;
+  const { payload, ...rest } = record;
+  const status = / - ([A-Z]+)$/.exec(payload)?.[1];
+  return isOrderStatus(status) ? { ...rest, status } : null;
+};
+
+// --- Reducer ---
+// Records saved before field-level merging: every field they have was
+// written at the record's version
+const fieldVersionsOf = (record: OrderRecord): FieldVersions<OrderPayload> =>
+  record.fieldVersions ??
+  Object.fromEntries(
+    ORDER_FIELDS.filter((field) => record[field] !== undefined).map((field) => [field, record.version ?? 0])
+  );
+
+const payloadOf = (record: OrderRecord): Partial<OrderPayload> =>
+  Object.fromEntries(ORDER_FIELDS.filter((field) => record[field] !== undefined).map((field) => [field, record[field]]));
+
+// Records saved before tombstones: a deleted one stays deleted
+const tombstoneOf = (record: OrderRecord | undefined): Tombstone | undefined =>
+  record?.tombstone ??
+  (record?.type === 'deleted' ? { version: record.version ?? 0, timestamp: record.lastUpdated } : undefined);
+
+const describe = (event: ServerEvent) =>
+  event.type === 'deleted'
+    ? 'deleted'
+    : (event.payload.status ?? Object.keys(event.payload).join(', '));
+
+interface WriteResult {
+  changed: boolean;
+  note: string;
+  rejected: QuarantinedEvent | null;
+}
+
+// Merges one event into its order's record, field by field, whether it's next
+// in line or late. `skipped` names the versions an in-line event jumps over.
+const writeEvent = (
+  orders: Map<string, OrderRecord>,
+  newEvent: ServerEvent,
+  at: number,
+  skipped: number[] = []
+): WriteResult => {
+  const existingRecord = orders.get(newEvent.id);
+  const missing = [...(existingRecord?.missing ?? []), ...skipped].filter((version) => version !== newEvent.version);
+  const base: OrderRecord = {
+    ...(existingRecord ?? { id: newEvent.id, lastUpdated: newEvent.timestamp, type: newEvent.type }),
+    version: Math.max(existingRecord?.version ?? 0, newEvent.version), // Never goes back, so later events don't wait for this one
+    lastUpdated: Math.max(existingRecord?.lastUpdated ?? 0, newEvent.timestamp),
+    missing: missing.length > 0 ? missing : undefined,
+  };
+  const tombstone = tombstoneOf(existingRecord);
+  const label = `v${newEvent.version} ${describe(newEvent)}`;
+
+  // Deletes: the tombstone wins over every earlier version, however late it
+  // arrives. The first one stays; a second delete changes nothing.
+  if (newEvent.type === 'deleted') {
+    orders.set(newEvent.id, {
+      ...base,
+      type: 'deleted',
+      tombstone: tombstone ?? { version: newEvent.version, timestamp: newEvent.timestamp },
+    });
+    return { changed: !tombstone, note: tombstone ? `${label} again` : label, rejected: null };
+  }
+
+  if (tombstone) {
+    orders.set(newEvent.id, { ...base, tombstone });
+    if (isBuried(tombstone, newEvent.version)) {
+      return { changed: false, note: `${label} predates the delete at v${tombstone.version}`, rejected: null };
+    }
+    const reason = `order was deleted at v${tombstone.version}`;
+    return { changed: false, note: `${label} quarantined: ${reason}`, rejected: { event: newEvent, reason, at } };
+  }
+
+  const merge = mergeFields<OrderPayload>(
+    existingRecord ? payloadOf(existingRecord) : {},
+    existingRecord ? fieldVersionsOf(existingRecord) : {},
+    newEvent.payload,
+    newEvent.version,
+    compareFieldValues
+  );
+
+  // State machine: a status that wins may only move the order forward (see
+  // ORDER_TRANSITIONS). The whole event is refused, not just its status.
+  // Across missing versions there's no telling what the order went through
+  // (a bogus CONFIRMED v6 on a PENDING v1 looks like a fine move), so such a
+  // status change waits in quarantine until the history is complete.
+  const status = merge.values.status;
+  const gap = missing.filter((version) => version < newEvent.version);
+  if (status && merge.won.includes('status') && gap.length > 0) {
+    orders.set(newEvent.id, base);
+    const reason = `status change skips v${gap.join(', v')}, which never arrived`;
+    return {
+      changed: false,
+      note: `${label} quarantined: ${reason}`,
+      rejected: { event: newEvent, reason, at, awaitingHistory: true },
+    };
+  }
+  if (existingRecord?.status && status && merge.won.includes('status') && !canReachStatus(existingRecord.status, status)) {
+    orders.set(newEvent.id, base);
+    const reason = `${existingRecord.status} → ${status} is not an allowed transition`;
+    return { changed: false, note: `${label} quarantined: ${reason}`, rejected: { event: newEvent, reason, at } };
+  }
+
+  const isNewest = !existingRecord || newEvent.version > (existingRecord.version ?? 0);
+  orders.set(newEvent.id, {
+    ...base,
+    ...merge.values,
+    type: isNewest ? newEvent.type : base.type,
+    fieldVersions: merge.versions,
+  });
+
+  if (merge.won.length === 0 && merge.lost.length === 0) {
+    return { changed: false, note: `${label} was already applied`, rejected: null };
+  }
+  if (merge.lost.length === 0) return { changed: true, note: label, rejected: null };
+  const kept = `kept newer ${merge.lost.join(', ')}`;
+  return {
+    changed: merge.won.length > 0,
+    note: merge.won.length > 0 ? `${label}: merged ${merge.won.join(', ')}, ${kept}` : `${label}: ${kept}`,
+    rejected: null,
+  };
+};
+
+const quarantine = (projection: OrderProjection, rejected: QuarantinedEvent[]) => {
+  if (rejected.length === 0) return;
+  const isRejected = (event: ServerEvent) =>
+    rejected.some((entry) => entry.event.id === event.id && entry.event.version === event.version);
+  const kept = projection.quarantine.filter(({ event }) => !isRejected(event));
+  const newestFirst = [...[...rejected].reverse(), ...kept];
+  const final = newestFirst.filter((entry) => !entry.awaitingHistory).slice(0, QUARANTINE_LIMIT);
+  projection.quarantine = newestFirst.filter((entry) => entry.awaitingHistory || final.includes(entry));
+};
+
+// Once a late event fills in missing versions, the status changes that were
+// waiting on them are checked again: applied if the history now allows them,
+// quarantined for good if it doesn't. Returns a note per event retried.
+const retryAwaitingHistory = (projection: OrderProjection, orderId: string, at: number): string[] => {
+  const waiting = projection.quarantine
+    .filter(({ event, awaitingHistory }) => awaitingHistory && event.id === orderId)
+    .sort((a, b) => a.event.version - b.event.version);
+
+  return waiting.flatMap((entry) => {
+    const record = projection.orders.get(orderId);
+    if (record?.missing?.some((version) => version < entry.event.version)) return [];
+
+    projection.quarantine = projection.quarantine.filter((other) => other !== entry);
+    const { note, rejected } = writeEvent(projection.orders, entry.event, at);
+    if (rejected) quarantine(projection, [rejected]);
+    return [note];
+  });
+};
+
+// The history never came: the status changes waiting on it are rejected for
+// good, and the order stays where it was. Returns a note per event given up on.
+const giveUpOnHistory = (projection: OrderProjection, orderId: string, at: number): string[] => {
+  const waiting = projection.quarantine.filter(({ event, awaitingHistory }) => awaitingHistory && event.id === orderId);
+  projection.quarantine = projection.quarantine.filter((entry) => !waiting.includes(entry));
+  quarantine(
+    projection,
+    waiting.map((entry) => ({ event: entry.event, reason: entry.reason, at }))
+  );
+  return waiting.map(({ event }) => `v${event.version} ${describe(event)}`);
+};
+
+// Orders whose status changes have waited `timeoutMs` or more for their
+// history, for the caller to log a timeout for
+export const expiredHistory = (projection: OrderProjection, timeoutMs: number, now = Date.now()): string[] =>
+  Array.from(
+    new Set(
+      projection.quarantine
+        .filter(({ awaitingHistory, at }) => awaitingHistory && now - at >= timeoutMs)
+        .map(({ event }) => event.id)
+    )
+  );
+
+// Applies an event that's next in line, then whatever the buffer was holding
+// right behind it. Returns a note per event applied.
+const applyInLine = (projection: OrderProjection, event: ServerEvent, at: number, skipped: number[] = []) => {
+  const ready = [event, ...projection.buffer.takeContiguous(event.id, event.version)];
+  const results = ready.map((next, i) => writeEvent(projection.orders, next, at, i === 0 ? skipped : []));
+  quarantine(
+    projection,
+    results.flatMap(({ rejected }) => (rejected ? [rejected] : []))
+  );
+  return { notes: results.map(({ note }) => note), quarantined: results[0].rejected !== null };
+};
+
+const versionRange = (from: number, to: number) =>
+  Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+
+// Mutates the projection and describes what happened
+export const applyLogEntry = (projection: OrderProjection, entry: LogEntry): EntryOutcome => {
+  if (entry.kind === 'snapshot') {
+    projection.orders = new Map(entry.records.map((record) => [record.id, record]));
+    projection.buffer = new ReorderBuffer(entry.held);
+    projection.quarantine = entry.quarantine;
+    projection.forgotten = new Map(entry.forgotten);
+    projection.forgottenUpTo = new Map(entry.forgottenUpTo);
+    return { result: 'snapshot', note: `Compacted ${entry.folded} entries into ${entry.records.length} orders` };
+  }
+
+  const { orders, buffer } = projection;
+
+  if (entry.kind === 'import') {
+    entry.records.forEach((record) => orders.set(record.id, record));
+    return { result: 'import', note: `Imported ${entry.records.length} orders saved before the log existed` };
+  }
+
+  if (entry.kind === 'timeout') {
+    const event = buffer.takeOldest(entry.orderId);
+    if (!event) {
+      const givenUp = giveUpOnHistory(projection, entry.orderId, entry.at);
+      if (givenUp.length === 0) return { result: 'timeout', note: 'Nothing was waiting' };
+      return { result: 'timeout', note: `Gave up on the history of ${givenUp.join(', ')}; quarantined for good` };
+    }
+
+    const skipped = versionRange((orders.get(entry.orderId)?.version ?? 0) + 1, event.version);
+    const { notes } = applyInLine(projection, event, entry.at, skipped);
+    return { result: 'timeout', note: `Gave up waiting for v${skipped.join(', v')}; applied ${notes.join(', ')}` };
+  }
+
+  const { event } = entry;
+  const existingRecord = orders.get(event.id);
+
+  // Compaction dropped this order (its tombstone expired, or it was finished
+  // and over the size cap), so there's no record left to bury the event with.
+  // Anything up to the version it had reached is late; anything past it is
+  // as bogus as an update after a delete.
+  const forgottenAt = projection.forgotten.get(event.id);
+  if (forgottenAt !== undefined) {
+    const label = `v${event.version} ${describe(event)}`;
+    if (event.version <= forgottenAt) {
+      return { result: 'late', note: `${label} predates compaction, which dropped the order at v${forgottenAt}` };
+    }
+    const reason = `order was dropped by compaction at v${forgottenAt}`;
+    quarantine(projection, [{ event, reason, at: entry.at }]);
+    return { result: 'quarantined', note: `${label} quarantined: ${reason}` };
+  }
+  // Dropped long enough ago that only its feed's high-water mark is left
+  const parsedId = parseOrderId(event.id);
+  const upTo = parsedId ? projection.forgottenUpTo.get(parsedId.epoch) : undefined;
+  if (!existingRecord && parsedId && upTo !== undefined && parsedId.counter <= upTo) {
+    return {
+      result: 'late',
+      note: `v${event.version} ${describe(event)} is for an order compaction dropped (up to #${upTo} of its feed)`,
+    };
+  }
+
+  // Already past this version (timestamps only when the stored record has no
+  // version): the record as a whole is newer, but the event can still own
+  // fields nothing newer has written, like a tracking number after a gap
+  const incoming = { ...event, status: event.payload.status };
+  if (existingRecord && compareOrderStamps(incoming, { ...existingRecord, timestamp: existingRecord.lastUpdated }) <= 0) {
+    const wasMissing = existingRecord.missing?.includes(event.version);
+    const { changed, note, rejected } = writeEvent(orders, event, entry.at);
+    if (rejected) quarantine(projection, [rejected]);
+    const retried = wasMissing ? retryAwaitingHistory(projection, event.id, entry.at) : [];
+    const fullNote = [
+      note,
+      ...(wasMissing ? [' (arrived after we gave up on it; no longer missing)'] : []),
+      ...(retried.length > 0 ? [`; retried ${retried.join(', ')}`] : []),
+    ].join('');
+    return { result: rejected ? 'quarantined' : changed ? 'merged' : 'late', note: fullNote };
+  }
+
+  // Gaps: the event waits until every earlier version has been applied (or a
+  // timeout entry gives up on them). Deletes don't wait, since their
+  // tombstone wins over the earlier versions anyway. Records saved before
+  // versions existed have nothing to count from.
+  const appliedVersion = existingRecord ? existingRecord.version : 0;
+  if (event.type !== 'deleted' && appliedVersion !== undefined && event.version > appliedVersion + 1) {
+    buffer.hold(event, entry.at);
+    return { result: 'held', note: `v${event.version} ${describe(event)} held, waiting for v${appliedVersion + 1}` };
+  }
+
+  const { notes, quarantined } = applyInLine(projection, event, entry.at);
+  return {
+    result: quarantined ? 'quarantined' : 'applied',
+    note: notes.length > 1 ? `${notes[0]}; released ${notes.slice(1).join(', ')}` : notes[0],
+  };
+};
+
+// --- Replay ---
+export const replayLog = (entries: LogEntry[]): { projection: OrderProjection; outcomes: EntryOutcome[] } => {
+  const projection = createProjection();
+  const outcomes = entries.map((entry) => applyLogEntry(projection, entry));
+  return { projection, outcomes };
+};
+
+// --- Time Travel ---
+// arrival: the log as it happened, so a prefix is what the page believed then
+// event-time: only the events, in the order they happened at the source, so
+// a prefix is what was actually true then. Timeouts don't apply there: in
+// event time nothing arrives early.
+export type TimelineMode = 'arrival' | 'event-time';
+
+export const orderTimeline = (entries: LogEntry[], mode: TimelineMode): LogEntry[] => {
+  if (mode === 'arrival') return entries;
+
+  const imports = entries.filter((entry) => entry.kind === 'import' || entry.kind === 'snapshot');
+  const events = entries.filter((entry): entry is Extract<LogEntry, { kind: 'event' }> => entry.kind === 'event');
+  const sorted = [...events].sort(
+    (a, b) =>
+      a.event.timestamp - b.event.timestamp || a.event.version - b.event.version || a.event.id.localeCompare(b.event.id)
+  );
+  return [...imports, ...sorted];
+};
+
+// --- Compaction ---
+// Folds everything but the newest `keepEntries` entries into one snapshot.
+// Tombstones older than the retention window are dropped, then the oldest
+// finished orders until at most `maxOrders` are left (orders still in
+// progress stay, even over the cap). An order whose history we gave up on
+// can't move any more, so it counts as finished. Each dropped order leaves only its id
+// and version behind, so its late events are still refused: a tombstone can
+// expire without the order coming back. Past FORGOTTEN_LIMIT ids, the oldest
+// are folded into their feed's high-water mark, so the snapshot stays bounded
+// however long the page runs.
+export interface CompactionPolicy {
+  now: number;
+  tombstoneRetentionMs: number;
+  keepEntries: number;
+  maxOrders: number;
+}
+
+export interface Compaction {
+  entries: LogEntry[];
+  folded: number;
+  expired: number; // Tombstones past the retention window
+  evicted: number; // Finished orders over the size cap
+}
+
+export const compactLog = (entries: LogEntry[], policy: CompactionPolicy): Compaction | null => {
+  const cut = Math.max(0, entries.length - policy.keepEntries);
+  if (cut === 0) return null;
+
+  const { projection } = replayLog(entries.slice(0, cut));
+  const forget = (record: OrderRecord) => {
+    projection.forgotten.delete(record.id); // Re-inserted as the newest
+    projection.forgotten.set(record.id, record.version ?? 0);
+    projection.buffer.discard(record.id);
+    projection.quarantine = projection.quarantine.filter(
+      ({ event, awaitingHistory }) => !awaitingHistory || event.id !== record.id
+    );
+  };
+  // Orders with events held or quarantined until their history arrives
+  const waiting = new Set([
+    ...projection.buffer.entries().map(([orderId]) => orderId),
+    ...projection.quarantine.filter(({ awaitingHistory }) => awaitingHistory).map(({ event }) => event.id),
+  ]);
+  const isFinished = (record: OrderRecord) =>
+    tombstoneOf(record) !== undefined ||
+    (record.status !== undefined && ORDER_TRANSITIONS[record.status].length === 0) ||
+    (record.missing !== undefined && !waiting.has(record.id));
+
+  const live = Array.from(projection.orders.values()).filter((record) => {
+    const tombstone = tombstoneOf(record);
+    if (!tombstone || policy.now - tombstone.timestamp < policy.tombstoneRetentionMs) return true;
+    forget(record);
+    return false;
+  });
+  const expired = projection.orders.size - live.length;
+
+  let excess = live.length - policy.maxOrders;
+  const records = [...live]
+    .sort((a, b) => a.lastUpdated - b.lastUpdated)
+    .filter((record) => {
+      if (excess <= 0 || !isFinished(record)) return true;
+      excess--;
+      forget(record);
+      return false;
+    });
+
+  // Ids in another shape have no feed to fold into; their feed is long gone
+  // anyway, so nothing new arrives for them
+  const overflow = Array.from(projection.forgotten.keys()).slice(0, -FORGOTTEN_LIMIT);
+  overflow.forEach((id) => {
+    projection.forgotten.delete(id);
+    const parsed = parseOrderId(id);
+    if (!parsed) return;
+    const upTo = projection.forgottenUpTo.get(parsed.epoch) ?? 0;
+    projection.forgottenUpTo.set(parsed.epoch, Math.max(upTo, parsed.counter));
+  });
+
+  const snapshot: LogEntry = {
+    seq: entries[cut - 1].seq, // Keeps numbering where the folded entries left off
+    at: policy.now,
+    kind: 'snapshot',
+    folded: cut,
+    records,
+    held: projection.buffer.entries(),
+    quarantine: projection.quarantine,
+    forgotten: Array.from(projection.forgotten.entries()),
+    forgottenUpTo: Array.from(projection.forgottenUpTo.entries()),
+  };
+
+  return {
+    entries: [snapshot, ...entries.slice(cut)],
+    folded: cut,
+    expired,
+    evicted: live.length - records.length,
+  };
+};
@@ -0,0 +1,141 @@
+// src/lib/payment-operations.ts
+// Shared handler behind POST /api/form-consistent/refund and /void. Both act
+// on an existing charge, carry their own idempotency key, and get the same
+// single-flight, replay and chaos treatment as charges.
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOperationStore,
+  getTransactionStore,
+  OperationKind,
+  operationLinkKey,
+} from '@/lib/transaction-store';
+import { fingerprintPayload } from '@/lib/fingerprint';
+import { getInFlightRegistry } from '@/lib/in-flight-registry';
+import { Chaos, createChaos } from '@/lib/chaos';
+import { inProgressResponse, keyMismatchResponse, unavailableResponse } from '@/lib/idempotency-responses';
+
+// --- Types ---
+interface OperationRequest {
+  transactionId: string; // Idempotency key of the charge being refunded/voided
+  idempotencyKey: string; // The operation's own key
+}
+
+const processedTransactions = getTransactionStore();
+const paymentOperations = getOperationStore();
+const inFlightTransactions = getInFlightRegistry('charges');
+const inFlightOperations = getInFlightRegistry('operations');
+
+// A business-rule rejection: retrying with the same key can never succeed
+const rejectedResponse = (code: string, error: string, idempotencyKey: string) =>
+  NextResponse.json({ error, code, id: idempotencyKey }, { status: 422 });
+
+// --- Validation ---
+// Same shape of answer as the charge route: every problem at once, by field
+const validateOperationRequest = (body: unknown): Record<string, string> | null => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { body: 'Must be a JSON object' };
+
+  const errors: Record<string, string> = {};
+  const { transactionId, idempotencyKey } = body as Record<string, unknown>;
+  if (typeof transactionId !== 'string' || transactionId.trim() === '') errors.transactionId = 'Required';
+  if (typeof idempotencyKey !== 'string' || idempotencyKey.trim() === '') errors.idempotencyKey = 'Required';
+
+  return Object.keys(errors).length > 0 ? errors : null;
+};
+
+// --- Processing ---
+const processOperation = async (
+  kind: OperationKind,
+  { transactionId, idempotencyKey }: OperationRequest,
+  chaos: Chaos
+): Promise<NextResponse> => {
+  const fingerprint = fingerprintPayload({ kind, transactionId });
+
+  // 0. SINGLE-FLIGHT CHECKS
+  // One request per operation key, and nothing else touching the charge
+  // (its own retries, or a competing refund/void) while we decide.
+  const inFlight = inFlightOperations.get(idempotencyKey);
+  if (inFlight) {
+    if (inFlight.fingerprint !== fingerprint) return keyMismatchResponse(idempotencyKey);
+    return inProgressResponse(idempotencyKey, `The ${kind} is already being processed`);
+  }
+  if (inFlightTransactions.get(transactionId)) {
+    return inProgressResponse(idempotencyKey, 'The original transaction is busy');
+  }
+
+  inFlightOperations.acquire(idempotencyKey, fingerprint, kind);
+  inFlightTransactions.acquire(transactionId, fingerprint, kind);
+
+  try {
+    // 1. IDEMPOTENCY CHECK
+    const existing = await paymentOperations.get(idempotencyKey);
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) return keyMismatchResponse(idempotencyKey);
+
+      console.log(`[API] Idempotent ${kind} replay for key: ${idempotencyKey}`);
+      return NextResponse.json(
+        { message: `${kind} already processed`, status: 'success', id: idempotencyKey, transactionId, kind },
+        { status: 200 }
+      );
+    }
+
+    // 2. BUSINESS RULES
+    // A charge ends in at most one refund or void, whichever key asked first
+    const linked = await paymentOperations.get(operationLinkKey(transactionId));
+    if (linked) {
+      return rejectedResponse(
+        linked.kind === 'void' ? 'ALREADY_VOIDED' : 'ALREADY_REFUNDED',
+        `Transaction was already ${linked.kind === 'void' ? 'cancelled' : 'refunded'}`,
+        idempotencyKey
+      );
+    }
+
+    const charge = await processedTransactions.get(transactionId);
+    if (kind === 'refund' && !charge) {
+      return rejectedResponse('NOT_PROCESSED', 'Only processed transactions can be refunded', idempotencyKey);
+    }
+    if (kind === 'void' && charge) {
+      return rejectedResponse('ALREADY_PROCESSED', 'Transaction already went through; refund it instead', idempotencyKey);
+    }
+
+    // 3. SIMULATE RANDOM NETWORK/SERVICE BEHAVIOR
+    if (chaos.roll('503', chaos.settings.unavailableRate)) {
+      console.log(`[API] Simulating 503 Service Unavailable for ${kind}: ${idempotencyKey}`);
+      return unavailableResponse();
+    }
+    await chaos.maybeDelay();
+
+    // 4. RECORD
+    const operation = { kind, id: idempotencyKey, transactionId, date: new Date(), fingerprint };
+    await paymentOperations.set(idempotencyKey, operation);
+    await paymentOperations.set(operationLinkKey(transactionId), operation);
+
+    console.log(`[API] Recorded ${kind} ${idempotencyKey} for ${transactionId}`);
+    return NextResponse.json(
+      { message: `${kind} recorded successfully`, status: 'success', id: idempotencyKey, transactionId, kind },
+      { status: 200 }
+    );
+  } finally {
+    inFlightOperations.release(idempotencyKey);
+    inFlightTransactions.release(transactionId);
+  }
+};
+
+// --- Route Handler Factory ---
+export const createOperationHandler = (kind: OperationKind) =>
+  async function POST(req: NextRequest) {
+    try {
+      // Unparseable JSON is the caller's mistake, same as a bad field
+      const body: unknown = await req.json().catch(() => undefined);
+      const errors = validateOperationRequest(body);
+      if (errors) {
+        return NextResponse.json({ error: 'Invalid request', fields: errors }, { status: 400 });
+      }
+      const { transactionId, idempotencyKey } = body as OperationRequest;
+
+      const chaos = createChaos(req, 'form-consistent', `${kind}:${idempotencyKey}`);
+      return chaos.annotate(await processOperation(kind, { transactionId, idempotencyKey }, chaos));
+    } catch (error) {
+      console.error(`[API] Internal Server Error (${kind}):`, error);
+      return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+    }
+  };
@@ -0,0 +1,141 @@
+// src/lib/rate-limiter.ts
+// Sliding-window rate limiting for the payment API. Each key (an email or a
+// client IP) keeps a log of the requests it made inside the window; a request
+// is allowed while that log is shorter than the limit.
+
+// --- Types ---
+export interface RateLimitRule {
+  max: number; // Requests allowed per window; 0 disables the rule
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  email: RateLimitRule;
+  ip: RateLimitRule;
+}
+
+export interface ClientIpConfig {
+  trustProxy: boolean; // Whether the last X-Forwarded-For hop comes from our own proxy
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface WindowEntry {
+  at: number;
+  id: string; // Idempotency key that used the slot
+}
+
+// --- Limiter ---
+// Slots are counted per idempotency key, so retries of a payment that hasn't
+// gone through yet (after a 503, say) don't use up more of the budget.
+// Synchronous on purpose, like the in-flight registry: checking and consuming
+// happen in the same tick.
+export class SlidingWindowRateLimiter {
+  private windows = new Map<string, WindowEntry[]>();
+  private lastSweep = 0;
+
+  constructor(private readonly rule: RateLimitRule) {}
+
+  // Keys are only trimmed when they're used again, so once per window drop
+  // every key whose entries have all slid out. Otherwise each distinct IP or
+  // email would stay in the map forever.
+  private sweep(now: number) {
+    if (now - this.lastSweep < this.rule.windowMs) return;
+    this.lastSweep = now;
+    this.windows.forEach((entries, key) => {
+      if (entries.every((entry) => now - entry.at >= this.rule.windowMs)) this.windows.delete(key);
+    });
+  }
+
+  // Drops entries that slid out of the window and returns what's left
+  private current(key: string, now: number): WindowEntry[] {
+    const entries = (this.windows.get(key) ?? []).filter((entry) => now - entry.at < this.rule.windowMs);
+    if (entries.length > 0) this.windows.set(key, entries);
+    else this.windows.delete(key);
+    return entries;
+  }
+
+  check(key: string, id: string, now = Date.now()): RateLimitResult {
+    if (this.rule.max <= 0) return { allowed: true, retryAfterMs: 0 };
+
+    this.sweep(now);
+    const entries = this.current(key, now);
+    if (entries.some((entry) => entry.id === id) || entries.length < this.rule.max) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    // A slot frees up when the oldest entry leaves the window
+    return { allowed: false, retryAfterMs: entries[0].at + this.rule.windowMs - now };
+  }
+
+  consume(key: string, id: string, now = Date.now()) {
+    if (this.rule.max <= 0) return;
+
+    const entries = this.current(key, now);
+    if (entries.some((entry) => entry.id === id)) return;
+    this.windows.set(key, [...entries, { at: now, id }]);
+  }
+}
+
+// --- Configuration ---
+// RATE_LIMIT_EMAIL_MAX / RATE_LIMIT_IP_MAX: requests per window (0 = off)
+// RATE_LIMIT_WINDOW_MS: window length, shared by both rules
+// RATE_LIMIT_TRUST_PROXY=1: read the client IP from X-Forwarded-For
+const DEFAULT_EMAIL_MAX = 5;
+const DEFAULT_IP_MAX = 20;
+const DEFAULT_WINDOW_MS = 60 * 1000;
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const readRateLimitConfig = (): RateLimitConfig => {
+  const windowMs = readNumber(process.env.RATE_LIMIT_WINDOW_MS, DEFAULT_WINDOW_MS);
+  return {
+    email: { max: readNumber(process.env.RATE_LIMIT_EMAIL_MAX, DEFAULT_EMAIL_MAX), windowMs },
+    ip: { max: readNumber(process.env.RATE_LIMIT_IP_MAX, DEFAULT_IP_MAX), windowMs },
+  };
+};
+
+export const readClientIpConfig = (): ClientIpConfig => ({
+  trustProxy: process.env.RATE_LIMIT_TRUST_PROXY === '1' || process.env.RATE_LIMIT_TRUST_PROXY === 'true',
+});
+
+// --- Charge Limits ---
+// Both rules must allow the request before either one is consumed, so a
+// request rejected by one rule doesn't eat into the other's budget. Without
+// a client IP only the email rule applies.
+const globalForLimiter = globalThis as unknown as {
+  __bhumioRateLimiters?: Record<keyof RateLimitConfig, SlidingWindowRateLimiter>;
+};
+
+const getChargeLimiters = () => {
+  if (!globalForLimiter.__bhumioRateLimiters) {
+    const config = readRateLimitConfig();
+    globalForLimiter.__bhumioRateLimiters = {
+      email: new SlidingWindowRateLimiter(config.email),
+      ip: new SlidingWindowRateLimiter(config.ip),
+    };
+  }
+  return globalForLimiter.__bhumioRateLimiters;
+};
+
+export const limitCharge = (
+  { email, ip }: { email: string; ip: string | null },
+  idempotencyKey: string
+): { allowed: true } | { allowed: false; limit: keyof RateLimitConfig; retryAfterMs: number } => {
+  const limiters = getChargeLimiters();
+  const keys: [keyof RateLimitConfig, string][] = [['email', email.trim().toLowerCase()]];
+  if (ip !== null) keys.push(['ip', ip]);
+
+  for (const [limit, key] of keys) {
+    const result = limiters[limit].check(key, idempotencyKey);
+    if (!result.allowed) return { allowed: false, limit, retryAfterMs: result.retryAfterMs };
+  }
+
+  keys.forEach(([limit, key]) => limiters[limit].consume(key, idempotencyKey));
+  return { allowed: true };
+};
@@ -0,0 +1,100 @@
+// src/lib/reorder-buffer.ts
+// Holds order events that arrived ahead of their predecessors. Each order's
+// versions are consecutive (1, 2, 3...), so an event is only ready once the
+// one before it has been applied. Held events are released either when the
+// gap fills in or when the caller decides the oldest one has waited too long.
+import { compareOrderStamps, ServerEvent } from '@/lib/order-events';
+
+// --- Types ---
+export interface HeldEvent {
+  event: ServerEvent;
+  heldAt: number; // Epoch ms when it entered the buffer
+}
+
+// --- Buffer ---
+// Synchronous and in memory; the page persists `toJSON()` next to its orders
+export class ReorderBuffer {
+  private held: Map<string, HeldEvent[]>; // Per order, sorted by version
+
+  constructor(entries: [string, HeldEvent[]][] = []) {
+    this.held = new Map(entries);
+  }
+
+  get size() {
+    let count = 0;
+    this.held.forEach((events) => (count += events.length));
+    return count;
+  }
+
+  // Keeps one event per version. Another write with a version already held is
+  // settled with the same tie-break as applied events, so the outcome doesn't
+  // depend on which copy arrived first.
+  hold(event: ServerEvent, now = Date.now()) {
+    const events = this.held.get(event.id) ?? [];
+    const existing = events.find((held) => held.event.version === event.version);
+    if (existing) {
+      const stamp = (e: ServerEvent) => ({ ...e, status: e.payload.status });
+      if (compareOrderStamps(stamp(event), stamp(existing.event)) > 0) existing.event = event;
+      return;
+    }
+    this.held.set(
+      event.id,
+      [...events, { event, heldAt: now }].sort((a, b) => a.event.version - b.event.version)
+    );
+  }
+
+  // Removes and returns the held events that follow `afterVersion` without a gap
+  takeContiguous(orderId: string, afterVersion: number): ServerEvent[] {
+    const events = this.held.get(orderId) ?? [];
+    const ready: ServerEvent[] = [];
+    let next = afterVersion + 1;
+
+    // Anything at or below the applied version can never be applied any more
+    let index = 0;
+    while (index < events.length && events[index].event.version < next) index++;
+    while (index < events.length && events[index].event.version === next) {
+      ready.push(events[index].event);
+      index++;
+      next++;
+    }
+
+    this.setRemaining(orderId, events.slice(index));
+    return ready;
+  }
+
+  // Removes and returns the lowest held version, for giving up on a gap
+  takeOldest(orderId: string): ServerEvent | undefined {
+    const [first, ...rest] = this.held.get(orderId) ?? [];
+    this.setRemaining(orderId, rest);
+    return first?.event;
+  }
+
+  // Drops everything held for an order that's no longer tracked
+  discard(orderId: string) {
+    this.held.delete(orderId);
+  }
+
+  // Orders whose longest-waiting event has been held for `timeoutMs` or more
+  expired(timeoutMs: number, now = Date.now()): string[] {
+    return Array.from(this.held.entries())
+      .filter(([, events]) => events.some((held) => now - held.heldAt >= timeoutMs))
+      .map(([orderId]) => orderId);
+  }
+
+  entries(): [string, HeldEvent[]][] {
+    return Array.from(this.held.entries());
+  }
+
+  toJSON() {
+    return this.entries();
+  }
+
+  clear() {
+    this.held.clear();
+  }
+
+  private setRemaining(orderId: string, events: HeldEvent[]) {
+    if (events.length > 0) this.held.set(orderId, events);
+    else this.held.delete(orderId);
+  }
+}
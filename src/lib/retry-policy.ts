@@ -0,0 +1,57 @@
+// src/lib/retry-policy.ts
+
+// --- Types ---
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts, including the first one
+  baseDelayMs: number; // Ceiling of the first backoff window
+  maxDelayMs: number; // The backoff window never grows past this
+  attemptTimeoutMs: number; // A single request is aborted after this long
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  attemptTimeoutMs: 8000,
+};
+
+// --- Backoff ---
+// Exponential backoff with "full jitter": the window doubles after every
+// failed attempt (capped at maxDelayMs) and we wait a random time inside it.
+// Randomising the whole window spreads retries from many clients apart instead
+// of having them all hammer a recovering server at the same instant.
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number => {
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * window);
+};
+
+// --- Retry-After ---
+// The header is either a number of seconds or an HTTP date. Returns the wait
+// in ms, or null when the header is missing or unreadable.
+export const parseRetryAfter = (header: string | null, now: number = Date.now()): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - now);
+
+  return null;
+};
+
+// The server's Retry-After is a lower bound: we never retry sooner than it
+// asks, and the jittered backoff is added on top so clients told to wait the
+// same time don't all return together.
+export const getRetryDelay = (
+  attempt: number,
+  retryAfterMs: number | null,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): number => {
+  const backoff = computeBackoffDelay(attempt, policy);
+  return retryAfterMs === null ? backoff : retryAfterMs + backoff;
+};
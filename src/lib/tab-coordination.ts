@@ -0,0 +1,116 @@
+// src/lib/tab-coordination.ts
+// Browser-only helpers that let several open tabs of the same page agree on
+// who does the work (locks) and tell each other what changed (channel).
+
+// --- Tab Identity ---
+let tabId: string | null = null;
+
+export const getTabId = () => {
+  if (!tabId) tabId = crypto.randomUUID();
+  return tabId;
+};
+
+// --- Exclusive Execution ---
+// Runs `task` only if no other tab (or other caller in this tab) is already
+// running a task under the same name. Resolves to false when skipped.
+//
+// Uses the Web Locks API where available: the lock is released automatically
+// if the owning tab is closed. Older browsers fall back to a localStorage lease
+// that the owner keeps renewing while it works and that expires on its own if
+// the owner disappears.
+const LEASE_MS = 10000;
+const heldLocally = new Set<string>();
+
+interface Lease {
+  owner: string;
+  expiresAt: number;
+}
+
+const readLease = (key: string): Lease | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as Lease) : null;
+  } catch {
+    return null;
+  }
+};
+
+const runWithLease = async (name: string, task: () => Promise<void>) => {
+  const key = `bhumio-lease:${name}`;
+  const current = readLease(key);
+  if (current && current.owner !== getTabId() && current.expiresAt > Date.now()) {
+    return false;
+  }
+
+  const writeLease = () =>
+    localStorage.setItem(key, JSON.stringify({ owner: getTabId(), expiresAt: Date.now() + LEASE_MS }));
+
+  writeLease();
+  // Two tabs can both see a free lease and write it in the same moment. Give
+  // the other write a chance to land, then only the tab whose id stuck wins.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  if (readLease(key)?.owner !== getTabId()) return false;
+
+  const heartbeat = setInterval(writeLease, LEASE_MS / 2);
+  try {
+    await task();
+  } finally {
+    clearInterval(heartbeat);
+    if (readLease(key)?.owner === getTabId()) localStorage.removeItem(key);
+  }
+  return true;
+};
+
+export const runExclusive = async (name: string, task: () => Promise<void>): Promise<boolean> => {
+  if (heldLocally.has(name)) return false;
+  heldLocally.add(name);
+
+  try {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return await navigator.locks.request(name, { ifAvailable: true }, async (lock) => {
+        if (!lock) return false;
+        await task();
+        return true;
+      });
+    }
+    return await runWithLease(name, task);
+  } finally {
+    heldLocally.delete(name);
+  }
+};
+
+// --- Cross-Tab Messaging ---
+// BroadcastChannel where available, otherwise a localStorage key whose
+// `storage` events carry the message to every other tab.
+export interface TabChannel<T> {
+  post(message: T): void;
+  close(): void;
+}
+
+export const openTabChannel = <T>(name: string, onMessage: (message: T) => void): TabChannel<T> => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const key = `bhumio-channel:${name}`;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message as T);
+    } catch (e) {
+      console.error('[Tabs] Failed to read message', e);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    // The nonce makes every write a change, so repeated messages still fire
+    post: (message) => localStorage.setItem(key, JSON.stringify({ message, nonce: crypto.randomUUID() })),
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+};
@@ -0,0 +1,277 @@
+// src/lib/transaction-store.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fingerprintPayload } from '@/lib/fingerprint';
+import { CurrencyCode, isCurrencyCode } from '@/lib/money';
+
+// --- Types ---
+export interface StoredTransaction {
+  email: string;
+  amount: number; // Integer minor units
+  currency: CurrencyCode;
+  date: Date;
+  fingerprint: string; // Hash of the original request body, used to detect key reuse
+}
+
+// Charges saved before amounts were integer minor units have a float amount in
+// dollars, no currency, and a fingerprint of `{ email, amount }` only. They
+// become USD cents, and the fingerprint is recomputed from the new shape so a
+// replay of the same charge still matches instead of looking like key reuse.
+export const upgradeStoredTransaction = (value: StoredTransaction): StoredTransaction => {
+  if (isCurrencyCode(value.currency)) return value;
+
+  const amount = Math.round(value.amount * 100);
+  return {
+    ...value,
+    amount,
+    currency: 'USD',
+    fingerprint: value.fingerprint && fingerprintPayload({ email: value.email, amount, currency: 'USD' }),
+  };
+};
+
+// A refund or void, stored under its own idempotency key and linked to the
+// charge it acts on
+export type OperationKind = 'refund' | 'void';
+
+export interface StoredOperation {
+  kind: OperationKind;
+  id: string; // The operation's own idempotency key
+  transactionId: string; // Idempotency key of the original charge
+  date: Date;
+  fingerprint: string;
+}
+
+// Anything a store holds needs a date, which the file backend revives on load
+interface StoredValue {
+  date: Date;
+}
+
+interface StoredRecord<T> {
+  value: T;
+  expiresAt: number; // Epoch ms after which the key is forgotten
+}
+
+// Every backend speaks the same async contract so the route never cares where
+// idempotency keys actually live.
+export interface TransactionStore<T extends StoredValue = StoredTransaction> {
+  get(key: string): Promise<T | undefined>;
+  has(key: string): Promise<boolean>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  // Every live (unexpired) record, in no particular order
+  entries(): Promise<[string, T][]>;
+  // Drops every expired key and returns how many were removed
+  sweepExpired(): Promise<number>;
+}
+
+export type TransactionStoreBackend = 'memory' | 'file';
+
+export interface TransactionStoreConfig {
+  backend: TransactionStoreBackend;
+  ttlMs: number;
+  filePath: string;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// --- Configuration ---
+// Read from env so the backend can be switched without touching code:
+//   TX_STORE_BACKEND=memory|file   (default: file)
+//   TX_STORE_TTL_MS=86400000       (default: 24h)
+//   TX_STORE_PATH=.data/transactions.json
+export const readStoreConfig = (): TransactionStoreConfig => {
+  const backend = process.env.TX_STORE_BACKEND === 'memory' ? 'memory' : 'file';
+  const ttl = Number(process.env.TX_STORE_TTL_MS);
+
+  return {
+    backend,
+    ttlMs: Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_MS,
+    filePath: process.env.TX_STORE_PATH || path.join(process.cwd(), '.data', 'transactions.json'),
+  };
+};
+
+// --- Backend 1: In-Memory ---
+// Fast, but forgets everything when the process restarts.
+export class MemoryTransactionStore<T extends StoredValue = StoredTransaction> implements TransactionStore<T> {
+  protected records = new Map<string, StoredRecord<T>>();
+
+  constructor(protected readonly ttlMs: number) {}
+
+  async get(key: string) {
+    const record = this.records.get(key);
+    if (!record) return undefined;
+
+    // Lazy expiry: an expired key behaves exactly like an unknown one
+    if (record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record.value;
+  }
+
+  async has(key: string) {
+    return (await this.get(key)) !== undefined;
+  }
+
+  async set(key: string, value: T) {
+    this.records.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  async delete(key: string) {
+    return this.records.delete(key);
+  }
+
+  async entries() {
+    const now = Date.now();
+    const live: [string, T][] = [];
+    this.records.forEach((record, key) => {
+      if (record.expiresAt > now) live.push([key, record.value]);
+    });
+    return live;
+  }
+
+  async sweepExpired() {
+    const now = Date.now();
+    let removed = 0;
+    this.records.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        this.records.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+}
+
+// --- Backend 2: JSON File ---
+// Keeps the in-memory map as a cache and mirrors every change to disk, so
+// idempotency keys survive dev-server restarts and hot reloads.
+interface SerializedRecord<T> {
+  value: Omit<T, 'date'> & { date: string };
+  expiresAt: number;
+}
+
+export class FileTransactionStore<T extends StoredValue = StoredTransaction> extends MemoryTransactionStore<T> {
+  private loaded: Promise<void> | null = null;
+  // Writes are chained so two concurrent requests never interleave on disk
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // `upgrade` migrates values saved in an older shape as they are read
+  constructor(
+    ttlMs: number,
+    private readonly filePath: string,
+    private readonly upgrade: (value: T) => T = (value) => value
+  ) {
+    super(ttlMs);
+  }
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await fs.readFile(this.filePath, 'utf8');
+          const entries: [string, SerializedRecord<T>][] = JSON.parse(raw);
+          this.records = new Map(
+            entries.map(([key, record]) => [
+              key,
+              {
+                value: this.upgrade({ ...record.value, date: new Date(record.value.date) } as T),
+                expiresAt: record.expiresAt,
+              },
+            ])
+          );
+        } catch (error) {
+          // A missing file just means nothing has been processed yet
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('[Store] Failed to read transaction store, starting empty:', error);
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private persist() {
+    // A failed write must not poison the queue for every later write
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      const entries = Array.from(this.records.entries());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write to a temp file first so a crash mid-write never corrupts the store
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(entries));
+      await fs.rename(tmpPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+
+  async get(key: string) {
+    await this.load();
+    return super.get(key);
+  }
+
+  async set(key: string, value: T) {
+    await this.load();
+    await super.set(key, value);
+    await this.persist();
+  }
+
+  async delete(key: string) {
+    await this.load();
+    const removed = await super.delete(key);
+    if (removed) await this.persist();
+    return removed;
+  }
+
+  async entries() {
+    await this.load();
+    return super.entries();
+  }
+
+  async sweepExpired() {
+    await this.load();
+    const removed = await super.sweepExpired();
+    if (removed > 0) await this.persist();
+    return removed;
+  }
+}
+
+// --- Factory ---
+export const createTransactionStore = <T extends StoredValue = StoredTransaction>(
+  config: TransactionStoreConfig = readStoreConfig(),
+  upgrade?: (value: T) => T
+): TransactionStore<T> => {
+  if (config.backend === 'memory') {
+    return new MemoryTransactionStore<T>(config.ttlMs);
+  }
+  return new FileTransactionStore<T>(config.ttlMs, config.filePath, upgrade);
+};
+
+// Cache the instances on globalThis so hot reloads reuse the same stores
+// instead of creating fresh (empty) ones for every module evaluation.
+const globalForStore = globalThis as unknown as {
+  __bhumioTxStore?: TransactionStore;
+  __bhumioOpStore?: TransactionStore<StoredOperation>;
+};
+
+export const getTransactionStore = (): TransactionStore => {
+  if (!globalForStore.__bhumioTxStore) {
+    globalForStore.__bhumioTxStore = createTransactionStore(readStoreConfig(), upgradeStoredTransaction);
+  }
+  return globalForStore.__bhumioTxStore;
+};
+
+// Refunds and voids live next to the charges, in operations.json. Besides the
+// operation's own key, each one is also stored under `link:<chargeId>`, so the
+// charge can find out whether it has been refunded or voided.
+export const operationLinkKey = (transactionId: string) => `link:${transactionId}`;
+
+export const getOperationStore = (): TransactionStore<StoredOperation> => {
+  if (!globalForStore.__bhumioOpStore) {
+    const config = readStoreConfig();
+    globalForStore.__bhumioOpStore = createTransactionStore<StoredOperation>({
+      ...config,
+      filePath: path.join(path.dirname(config.filePath), 'operations.json'),
+    });
+  }
+  return globalForStore.__bhumioOpStore;
+};
@@ -0,0 +1,240 @@
+// src/lib/tx-export.ts
+// Export of the transaction log for bug reports, and import of such a file
+// back into the outbox. Imports are validated row by row and merged by
+// idempotency key, so importing the same file twice changes nothing.
+import { isCurrencyCode } from '@/lib/money';
+import type { AttemptRecord } from '@/lib/use-resilient-mutation';
+import {
+  LegacyTransaction,
+  Transaction,
+  TransactionKind,
+  TransactionStatus,
+  legacyAmountToMinor,
+  upgradeLegacyRow,
+} from '@/lib/tx-outbox';
+
+// --- Format ---
+const EXPORT_FORMAT = 'bhumio-tx-log';
+const EXPORT_VERSION = 1;
+
+export interface TransactionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  transactions: Transaction[];
+}
+
+// Keyed records so the compiler flags a status or kind added to tx-outbox
+// but missing here
+const STATUSES: Record<TransactionStatus, true> = {
+  pending: true,
+  retrying: true,
+  rate_limited: true,
+  success: true,
+  error: true,
+  conflict: true,
+  unknown: true,
+  cancelled: true,
+  refunded: true,
+};
+const KINDS: Record<TransactionKind, true> = { charge: true, refund: true, void: true };
+
+// Statuses that are done for good; anything else still needs the server
+const SETTLED: TransactionStatus[] = ['success', 'error', 'conflict', 'cancelled', 'refunded'];
+
+// --- Export ---
+export const exportTransactionsJson = (transactions: Transaction[]): string => {
+  const payload: TransactionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    transactions,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'kind',
+  'parentId',
+  'email',
+  'amount',
+  'currency',
+  'status',
+  'timestamp',
+  'attempts',
+  'nextAttemptAt',
+  'lastHttpStatus',
+  'lastError',
+  'mismatch',
+  'history',
+] as const;
+
+// Quotes a field when it contains a delimiter, quote or line break
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toIso = (epochMs?: number) => (epochMs === undefined ? undefined : new Date(epochMs).toISOString());
+
+// One row per transaction. The full attempt history goes in the last column
+// as JSON, with the latest attempt's outcome pulled out for spreadsheets.
+export const exportTransactionsCsv = (transactions: Transaction[]): string => {
+  const rows = transactions.map((tx) => {
+    const last = tx.history?.[tx.history.length - 1];
+    const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      id: tx.id,
+      kind: tx.kind ?? 'charge',
+      parentId: tx.parentId,
+      email: tx.email,
+      amount: tx.amount,
+      currency: tx.currency,
+      status: tx.status,
+      timestamp: toIso(tx.timestamp),
+      attempts: tx.attempts,
+      nextAttemptAt: toIso(tx.nextAttemptAt),
+      lastHttpStatus: last?.httpStatus,
+      lastError: last?.error,
+      mismatch: tx.mismatch,
+      history: tx.history?.length ? JSON.stringify(tx.history) : undefined,
+    };
+    return CSV_COLUMNS.map((column) => csvField(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// --- Import Validation ---
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+const validateAttempt = (value: unknown): string | null => {
+  if (!isObject(value)) return 'must be an object';
+  if (typeof value.attempt !== 'number' || typeof value.startedAt !== 'number' || typeof value.durationMs !== 'number') {
+    return 'needs numeric attempt, startedAt and durationMs';
+  }
+  if (!isOptionalNumber(value.httpStatus)) return 'httpStatus must be a number';
+  if (value.error !== undefined && typeof value.error !== 'string') return 'error must be a string';
+  if (value.source !== 'page' && value.source !== 'worker') return "source must be 'page' or 'worker'";
+  return null;
+};
+
+// Returns the problems with one row, empty when it's valid. Rows written
+// before amounts became minor units are accepted and upgraded afterwards.
+const validateRow = (row: unknown): string[] => {
+  if (!isObject(row)) return ['must be an object'];
+  const problems: string[] = [];
+
+  if (typeof row.id !== 'string' || row.id === '') problems.push('id must be a non-empty string');
+  if (typeof row.email !== 'string') problems.push('email must be a string');
+  if (!(typeof row.status === 'string' && row.status in STATUSES)) {
+    problems.push(`status must be one of ${Object.keys(STATUSES).join(', ')}`);
+  }
+  if (typeof row.timestamp !== 'number') problems.push('timestamp must be a number');
+
+  const legacyAmount = typeof row.amount === 'string' && row.currency === undefined;
+  if (legacyAmount) {
+    if (legacyAmountToMinor(row.amount as string) === null) problems.push('amount must be a non-negative decimal');
+  } else {
+    if (typeof row.amount !== 'number' || !Number.isSafeInteger(row.amount) || row.amount < 0) {
+      problems.push('amount must be a non-negative whole number of minor units');
+    }
+    if (!isCurrencyCode(row.currency)) problems.push('currency is not supported');
+  }
+
+  if (row.kind !== undefined && !(typeof row.kind === 'string' && row.kind in KINDS)) {
+    problems.push(`kind must be one of ${Object.keys(KINDS).join(', ')}`);
+  }
+  if ((row.kind === 'refund' || row.kind === 'void') && typeof row.parentId !== 'string') {
+    problems.push('parentId is required for refunds and voids');
+  }
+  if (!isOptionalNumber(row.attempts)) problems.push('attempts must be a number');
+  if (!isOptionalNumber(row.nextAttemptAt)) problems.push('nextAttemptAt must be a number');
+  if (row.mismatch !== undefined && typeof row.mismatch !== 'string') problems.push('mismatch must be a string');
+
+  if (row.history !== undefined) {
+    if (!Array.isArray(row.history)) {
+      problems.push('history must be an array');
+    } else {
+      row.history.forEach((attempt, index) => {
+        const problem = validateAttempt(attempt);
+        if (problem) problems.push(`history[${index}] ${problem}`);
+      });
+    }
+  }
+
+  return problems;
+};
+
+// Accepts our export format, or a bare array such as the old `bhumio-tx-logs`
+// localStorage value. Any invalid row rejects the whole file.
+export const parseTransactionImport = (
+  text: string
+): { transactions: Transaction[]; errors: null } | { transactions: null; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { transactions: null, errors: ['File is not valid JSON (CSV exports are for reading only)'] };
+  }
+
+  let rows: unknown;
+  if (Array.isArray(data)) {
+    rows = data;
+  } else if (isObject(data) && data.format === EXPORT_FORMAT) {
+    if (data.version !== EXPORT_VERSION) {
+      return { transactions: null, errors: [`Unsupported export version: ${String(data.version)}`] };
+    }
+    rows = data.transactions;
+  } else {
+    return { transactions: null, errors: [`Expected a ${EXPORT_FORMAT} export or an array of transactions`] };
+  }
+  if (!Array.isArray(rows)) return { transactions: null, errors: ['transactions must be an array'] };
+
+  const errors = rows.flatMap((row, index) => validateRow(row).map((problem) => `Row ${index + 1}: ${problem}`));
+  if (errors.length > 0) return { transactions: null, errors };
+
+  // Validated above, so every legacy amount upgrades
+  return { transactions: (rows as LegacyTransaction[]).map((row) => upgradeLegacyRow(row) as Transaction), errors: null };
+};
+
+// --- Merge ---
+// Same attempt seen from both sides (e.g. a file exported from this browser)
+const attemptKey = (record: AttemptRecord) => `${record.source}:${record.startedAt}:${record.attempt}`;
+
+const mergeHistory = (a: AttemptRecord[] = [], b: AttemptRecord[] = []): AttemptRecord[] => {
+  const byKey = new Map([...a, ...b].map((record) => [attemptKey(record), record]));
+  return Array.from(byKey.values()).sort((x, y) => x.startedAt - y.startedAt);
+};
+
+// For each key, a settled row beats an unfinished one: the settled side has
+// heard from the server. Otherwise the local row wins. Attempt histories are
+// always combined. Returns only the rows that are new or changed.
+export const mergeImportedTransactions = (local: Transaction[], imported: Transaction[]): Transaction[] => {
+  const localById = new Map(local.map((tx) => [tx.id, tx]));
+  const changed: Transaction[] = [];
+
+  imported.forEach((incoming) => {
+    const existing = localById.get(incoming.id);
+    if (!existing) {
+      changed.push(incoming);
+      localById.set(incoming.id, incoming);
+      return;
+    }
+
+    const incomingWins = !SETTLED.includes(existing.status) && SETTLED.includes(incoming.status);
+    const base = incomingWins ? incoming : existing;
+    const history = mergeHistory(existing.history, incoming.history);
+    const merged = history.length > 0 ? { ...base, history } : base;
+
+    if (incomingWins || history.length !== (existing.history?.length ?? 0)) {
+      changed.push(merged);
+      localById.set(merged.id, merged);
+    }
+  });
+
+  return changed;
+};
@@ -0,0 +1,281 @@
+// src/lib/tx-outbox.ts
+// Durable IndexedDB outbox for payment transactions. The page and the service
+// worker (public/sw.js) both read and write this store, so a pending payment
+// keeps moving forward even after the page is closed.
+//
+// NOTE: public/sw.js can't import this module. If you change the database
+// name, version or store layout here, mirror the change there.
+import { CurrencyCode, DEFAULT_CURRENCY, toMinorUnits } from '@/lib/money';
+import type { AttemptRecord, MutationStore } from '@/lib/use-resilient-mutation';
+
+// --- Types ---
+// 'unknown': the request timed out or the connection dropped, so we can't tell
+// whether the server processed it. Only a retry with the same key can settle it.
+// 'rate_limited': the server turned it away with 429; retried after Retry-After.
+// 'cancelled' / 'refunded': a charge that a later void / refund acted on.
+export type TransactionStatus =
+  | 'pending'
+  | 'retrying'
+  | 'rate_limited'
+  | 'success'
+  | 'error'
+  | 'conflict'
+  | 'unknown'
+  | 'cancelled'
+  | 'refunded';
+
+// Refunds and voids are rows of their own, with their own idempotency key, so
+// they get the same persistence, retry and resume as charges.
+export type TransactionKind = 'charge' | 'refund' | 'void';
+
+export interface Transaction {
+  id: string; // Idempotency key
+  kind?: TransactionKind; // Missing on rows stored before refunds existed: a charge
+  parentId?: string; // For refunds/voids: the charge they act on
+  email: string;
+  amount: number; // Integer minor units of `currency`
+  currency: CurrencyCode;
+  status: TransactionStatus;
+  timestamp: number; // Added to sort by date if needed
+  mismatch?: string; // Set when the server's record of this key disagrees with ours
+  attempts?: number; // How many POSTs have been made for this key so far
+  nextAttemptAt?: number; // When the next retry is scheduled (epoch ms)
+  history?: AttemptRecord[]; // Every attempt so far, oldest first
+}
+
+// --- Constants ---
+const DB_NAME = 'bhumio-payments';
+// v2: `amount` became integer minor units and `currency` was added
+const DB_VERSION = 2;
+const TX_STORE = 'transactions';
+const META_STORE = 'meta';
+
+// Legacy localStorage key that held the whole log as one JSON blob
+const LEGACY_STORAGE_KEY = 'bhumio-tx-logs';
+const MIGRATION_FLAG = 'migrated-local-storage';
+
+// Background Sync tag the service worker listens for
+export const OUTBOX_SYNC_TAG = 'bhumio-tx-outbox';
+
+// --- Requests ---
+// Where each kind of row is sent, and with what body
+export const buildTransactionRequest = (tx: Transaction): { url: string; body: Record<string, unknown> } => {
+  if (tx.kind === 'refund' || tx.kind === 'void') {
+    return {
+      url: `/api/form-consistent/${tx.kind}`,
+      body: { transactionId: tx.parentId, idempotencyKey: tx.id },
+    };
+  }
+  return {
+    url: '/api/form-consistent',
+    body: { email: tx.email, amount: tx.amount, currency: tx.currency, idempotencyKey: tx.id },
+  };
+};
+
+// --- Legacy Rows ---
+// Rows written before v2 hold the amount as the decimal string the user typed,
+// always in USD. Too many decimals used to be accepted, so round those (on the
+// digits, half up). Anything that isn't a non-negative decimal gives null.
+export type LegacyTransaction = Omit<Transaction, 'amount' | 'currency'> & { amount: string | number; currency?: CurrencyCode };
+
+export const legacyAmountToMinor = (amount: string): number | null => {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(amount.trim());
+  if (!match) return null;
+  const [, whole, fraction = ''] = match;
+  const cents = toMinorUnits(`${whole}.${fraction.slice(0, 2)}`, DEFAULT_CURRENCY);
+  return cents === null ? null : cents + (fraction.charAt(2) >= '5' ? 1 : 0);
+};
+
+// Null when the legacy amount can't be read
+export const upgradeLegacyRow = (row: LegacyTransaction): Transaction | null => {
+  if (typeof row.amount === 'number' && row.currency) return row as Transaction;
+  const amount = legacyAmountToMinor(String(row.amount));
+  return amount === null ? null : { ...row, amount, currency: DEFAULT_CURRENCY };
+};
+
+// --- Low-level helpers ---
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TX_STORE)) {
+          db.createObjectStore(TX_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        // Rewrite v1 rows in place, inside the upgrade transaction
+        if (event.oldVersion === 1) {
+          const cursorRequest = request.transaction!.objectStore(TX_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const upgraded = upgradeLegacyRow(cursor.value);
+            if (upgraded) {
+              cursor.update(upgraded);
+            } else {
+              console.warn('[Outbox] Dropping a v1 row with an unreadable amount', cursor.value);
+              cursor.delete();
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab or the worker needs to upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// --- Public API ---
+// Newest first, same order the log has always been shown in
+export const getAllTransactions = async (): Promise<Transaction[]> => {
+  const db = await openDatabase();
+  const rows = await promisifyRequest<Transaction[]>(db.transaction(TX_STORE).objectStore(TX_STORE).getAll());
+  return rows.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// All rows in one IDB transaction: either every row is written or none is
+export const putTransactions = async (transactions: Transaction[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TX_STORE, 'readwrite');
+  const store = tx.objectStore(TX_STORE);
+  transactions.forEach((transaction) => store.put(transaction));
+  await promisifyTransaction(tx);
+};
+
+// Read-modify-write inside one IDB transaction, so concurrent patches from the
+// page and the service worker never lose each other's fields.
+export const patchTransaction = async (id: string, changes: Partial<Transaction>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TX_STORE, 'readwrite');
+  const store = tx.objectStore(TX_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, ...changes });
+  };
+  await promisifyTransaction(tx);
+};
+
+// Appends in the same read-modify-write transaction as patchTransaction, so
+// attempts recorded by the page and the worker all make it into the history.
+export const appendAttempt = async (id: string, record: AttemptRecord): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TX_STORE, 'readwrite');
+  const store = tx.objectStore(TX_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    const row: Transaction | undefined = request.result;
+    if (row) store.put({ ...row, history: [...(row.history ?? []), record] });
+  };
+  await promisifyTransaction(tx);
+};
+
+export const clearTransactions = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TX_STORE, 'readwrite');
+  tx.objectStore(TX_STORE).clear();
+  await promisifyTransaction(tx);
+};
+
+// --- One-time Migration ---
+// Moves rows from the old localStorage blob into IndexedDB. Rows that already
+// exist in the outbox win, and the flag makes sure this only ever runs once.
+export const migrateLegacyLog = async (): Promise<void> => {
+  const db = await openDatabase();
+  const done = await promisifyRequest(db.transaction(META_STORE).objectStore(META_STORE).get(MIGRATION_FLAG));
+  if (done) return;
+
+  let legacyRows: Transaction[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]') as LegacyTransaction[];
+    legacyRows = parsed.flatMap((row) => {
+      const upgraded = upgradeLegacyRow(row);
+      if (!upgraded) console.warn('[Outbox] Skipping a legacy row with an unreadable amount', row);
+      return upgraded ? [upgraded] : [];
+    });
+  } catch (e) {
+    console.error('[Outbox] Failed to parse legacy logs, skipping migration', e);
+  }
+
+  const tx = db.transaction([TX_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(TX_STORE);
+  // `add` fails for existing keys; swallow that so one clash doesn't abort the rest
+  legacyRows.forEach((row) => {
+    store.add(row).onerror = (event) => event.preventDefault();
+  });
+  tx.objectStore(META_STORE).put(true, MIGRATION_FLAG);
+  await promisifyTransaction(tx);
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`[Outbox] Migrated ${legacyRows.length} transaction(s) from localStorage`);
+};
+
+// --- Mutation Store ---
+// The outbox as seen by useResilientMutation. Loading runs the one-time
+// migration first, so old localStorage logs are picked up too.
+export const transactionStore: MutationStore<Transaction> = {
+  load: async () => {
+    await migrateLegacyLog();
+    return getAllTransactions();
+  },
+  put: putTransactions,
+  patch: patchTransaction,
+  appendAttempt,
+  clear: clearTransactions,
+};
+
+// --- Service Worker ---
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+export const registerOutboxWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (e) {
+    console.warn('[Outbox] Service worker registration failed', e);
+  }
+};
+
+// Asks the browser to wake the service worker once connectivity is back.
+// Browsers without Background Sync simply rely on the open page instead.
+export const requestOutboxSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncCapableRegistration;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (e) {
+    console.warn('[Outbox] Background sync unavailable', e);
+  }
+};
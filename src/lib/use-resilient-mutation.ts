@@ -0,0 +1,352 @@
+// src/lib/use-resilient-mutation.ts
+// Client-side submissions that survive flaky networks and page reloads. Each
+// submission is a record keyed by its idempotency key. It is persisted before
+// the first request, retried under a RetryPolicy, and kept in sync across
+// tabs. Records left unfinished by a previous visit are resumed on mount.
+//
+// The hook knows nothing about what is being sent: pages describe each
+// attempt's outcome through `send`, and choose where records live via `store`.
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, parseRetryAfter, RetryPolicy } from '@/lib/retry-policy';
+import { openTabChannel, runExclusive, TabChannel } from '@/lib/tab-coordination';
+
+// --- Types ---
+// One request for a record, whoever sent it
+export interface AttemptRecord {
+  attempt: number; // Attempt number within its retry round
+  startedAt: number; // Epoch ms
+  durationMs: number;
+  httpStatus?: number; // Missing when no response arrived
+  error?: string;
+  source: 'page' | 'worker';
+}
+
+// Statuses the hook moves records through. Pages can settle records in
+// statuses of their own (e.g. 'conflict') through a 'settle' outcome.
+// 'unknown': no answer arrived, so only a retry with the same key can tell
+// whether the server acted on it.
+export type MutationStatus = 'pending' | 'retrying' | 'rate_limited' | 'unknown' | 'success' | 'error';
+
+export interface MutationRecord {
+  id: string; // Idempotency key
+  status: string;
+  attempts?: number; // Requests made in the current retry round
+  nextAttemptAt?: number; // When the next retry is scheduled (epoch ms)
+  history?: AttemptRecord[]; // Every attempt so far, oldest first
+}
+
+// What one attempt came to, as judged by the page's `send`
+export type AttemptOutcome<R extends MutationRecord> = {
+  httpStatus?: number;
+  error?: string;
+} & (
+  | { type: 'success'; changes?: Partial<R> }
+  // Counts as a failed attempt; retried after backoff or Retry-After
+  | { type: 'retry'; status?: 'retrying' | 'rate_limited'; retryAfterMs?: number | null }
+  // The request is busy elsewhere (e.g. 409): wait and ask again, same attempt
+  | { type: 'wait'; retryAfterMs?: number | null }
+  // Final, and not a success: `changes` must set the status
+  | { type: 'settle'; changes: Partial<R> }
+);
+
+export interface AttemptContext {
+  attempt: number;
+  signal: AbortSignal; // Aborted when the attempt times out
+}
+
+export interface MutationStore<R extends MutationRecord> {
+  load(): Promise<R[]>;
+  put(records: R[]): Promise<void>;
+  patch(id: string, changes: Partial<R>): Promise<void>;
+  appendAttempt(id: string, attempt: AttemptRecord): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Row-level changes broadcast to other tabs, so concurrent edits merge
+export type MutationMessage<R extends MutationRecord> =
+  | { kind: 'upsert'; tx: R }
+  | { kind: 'patch'; id: string; changes: Partial<R> }
+  | { kind: 'attempt'; id: string; record: AttemptRecord }
+  | { kind: 'clear' };
+
+export interface ResilientMutationOptions<R extends MutationRecord> {
+  store: MutationStore<R>;
+  channelName: string; // Tab channel; anything else posting to it must use MutationMessage
+  lockPrefix: string; // Only the holder of `${lockPrefix}:${id}` may drive a record
+  send: (record: R, context: AttemptContext) => Promise<AttemptOutcome<R>>;
+  policy?: RetryPolicy;
+  // Which loaded records to pick up on mount (default: unfinished ones), and
+  // how (default: a new round of attempts). Runs under the record's lock.
+  shouldResume?: (record: R) => boolean;
+  resume?: (record: R) => Promise<void>;
+  // After a record reaches a final status through `send`
+  onSettled?: (record: R, changes: Partial<R>) => void;
+  // Whenever a retry is scheduled or the outcome is left unknown
+  onRetryScheduled?: (record: R) => void;
+}
+
+// --- Helpers ---
+export const isUnfinishedStatus = (status: string) =>
+  status === 'pending' || status === 'retrying' || status === 'rate_limited' || status === 'unknown';
+
+export const applyMutationMessage = <R extends MutationRecord>(prev: R[], message: MutationMessage<R>): R[] => {
+  switch (message.kind) {
+    case 'upsert':
+      return prev.some((r) => r.id === message.tx.id)
+        ? prev.map((r) => (r.id === message.tx.id ? message.tx : r))
+        : [message.tx, ...prev];
+    case 'patch':
+      return prev.map((r) => (r.id === message.id ? { ...r, ...message.changes } : r));
+    case 'attempt':
+      return prev.map((r) => (r.id === message.id ? { ...r, history: [...(r.history ?? []), message.record] } : r));
+    case 'clear':
+      return [];
+  }
+};
+
+// The part of HTTP handling every endpoint shares: success, 503 and 429
+// (retry after Retry-After) and 409 (still in flight). Returns null for
+// anything else, which the caller must judge itself.
+export const classifyResponse = async <R extends MutationRecord>(
+  response: Response
+): Promise<AttemptOutcome<R> | null> => {
+  const httpStatus = response.status;
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  if (response.ok) return { type: 'success', httpStatus };
+
+  const error = await readResponseError(response);
+  if (httpStatus === 503) return { type: 'retry', httpStatus, error, retryAfterMs };
+  if (httpStatus === 429) return { type: 'retry', status: 'rate_limited', httpStatus, error, retryAfterMs };
+  if (httpStatus === 409) return { type: 'wait', httpStatus, error, retryAfterMs };
+  return null;
+};
+
+// The `error` field of a JSON error body, without consuming the response
+export const readResponseError = async (response: Response): Promise<string> => {
+  const body = await response.clone().json().catch(() => null);
+  return body?.error ?? `HTTP ${response.status}`;
+};
+
+// Keeps records in localStorage, for pages without an outbox of their own.
+// Every write re-reads the stored list, so writes from other tabs aren't lost.
+export const createLocalStorageStore = <R extends MutationRecord>(key: string): MutationStore<R> => {
+  const read = (): R[] => {
+    try {
+      return JSON.parse(localStorage.getItem(key) || '[]');
+    } catch (e) {
+      console.error(`[Mutation] Failed to parse ${key}, starting empty`, e);
+      return [];
+    }
+  };
+  const write = (records: R[]) => localStorage.setItem(key, JSON.stringify(records));
+  const update = (id: string, change: (record: R) => R) =>
+    write(read().map((record) => (record.id === id ? change(record) : record)));
+
+  return {
+    load: async () => read(),
+    put: async (records) => {
+      const ids = new Set(records.map((record) => record.id));
+      write([...records, ...read().filter((record) => !ids.has(record.id))]);
+    },
+    patch: async (id, changes) => update(id, (record) => ({ ...record, ...changes })),
+    appendAttempt: async (id, attempt) =>
+      update(id, (record) => ({ ...record, history: [...(record.history ?? []), attempt] })),
+    clear: async () => localStorage.removeItem(key),
+  };
+};
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- Hook ---
+export const useResilientMutation = <R extends MutationRecord>(options: ResilientMutationOptions<R>) => {
+  const [records, setRecords] = useState<R[]>([]);
+  // Tracks whether the store has been read yet (drives loading placeholders)
+  const [isLoaded, setIsLoaded] = useState(false);
+  const channelRef = useRef<TabChannel<MutationMessage<R>> | null>(null);
+
+  // Callbacks change every render; the effects and the retry loop always read
+  // the latest ones through this ref.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const lockName = (id: string) => `${optionsRef.current.lockPrefix}:${id}`;
+
+  // --- Local + Shared Updates ---
+  // Applied here, broadcast to other tabs, then persisted
+  const publish = (message: MutationMessage<R>) => {
+    setRecords((prev) => applyMutationMessage(prev, message));
+    channelRef.current?.post(message);
+  };
+
+  const update = (id: string, changes: Partial<R>) => {
+    publish({ kind: 'patch', id, changes });
+    optionsRef.current.store.patch(id, changes).catch((e) => console.error(`[Mutation] Failed to save ${id}`, e));
+  };
+
+  const recordAttempt = (id: string, attempt: AttemptRecord) => {
+    publish({ kind: 'attempt', id, record: attempt });
+    optionsRef.current.store
+      .appendAttempt(id, attempt)
+      .catch((e) => console.error(`[Mutation] Failed to record attempt for ${id}`, e));
+  };
+
+  // Writes whole records (new or merged from elsewhere) without running them
+  const upsert = async (incoming: R[]) => {
+    await optionsRef.current.store.put(incoming);
+    incoming.forEach((tx) => publish({ kind: 'upsert', tx }));
+  };
+
+  // --- The Retry Loop ---
+  // Awaited rather than fired off, so the returned promise only settles once
+  // the record reaches a final state (or is left unknown after the last try).
+  const execute = async (record: R, attempt = 1): Promise<void> => {
+    const { send, policy = DEFAULT_RETRY_POLICY, onSettled, onRetryScheduled } = optionsRef.current;
+    const { maxAttempts, attemptTimeoutMs } = policy;
+    const asChanges = (changes: Partial<MutationRecord>) => changes as Partial<R>;
+
+    update(
+      record.id,
+      asChanges(
+        attempt > 1
+          ? { status: 'retrying', attempts: attempt, nextAttemptAt: undefined }
+          : { attempts: attempt, nextAttemptAt: undefined }
+      )
+    );
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), attemptTimeoutMs);
+
+    let outcome: AttemptOutcome<R>;
+    try {
+      outcome = await send(record, { attempt, signal: controller.signal });
+    } catch {
+      // A timeout or dropped connection: the outcome is unknown, which is not
+      // the same as a failure
+      outcome = { type: 'retry', error: controller.signal.aborted ? `Timed out after ${attemptTimeoutMs}ms` : 'Network error' };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const gotResponse = outcome.httpStatus !== undefined || outcome.type !== 'retry';
+    recordAttempt(record.id, {
+      attempt,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      httpStatus: outcome.httpStatus,
+      error: outcome.type === 'success' ? undefined : outcome.error,
+      source: 'page',
+    });
+
+    switch (outcome.type) {
+      case 'success': {
+        const changes = { ...outcome.changes, ...asChanges({ status: 'success' }) };
+        update(record.id, changes);
+        onSettled?.(record, changes);
+        return;
+      }
+
+      case 'settle':
+        update(record.id, outcome.changes);
+        onSettled?.(record, outcome.changes);
+        return;
+
+      // Nothing failed yet, so this doesn't use up an attempt
+      case 'wait': {
+        const delayMs = getRetryDelay(1, outcome.retryAfterMs ?? null);
+        console.log(`[${record.id}] Busy on the server. Checking again in ${delayMs}ms...`);
+        update(record.id, asChanges({ status: 'retrying', nextAttemptAt: Date.now() + delayMs }));
+        await sleep(delayMs);
+        return execute(record, attempt);
+      }
+
+      case 'retry': {
+        if (attempt < maxAttempts) {
+          const delayMs = getRetryDelay(attempt, outcome.retryAfterMs ?? null);
+          const status = gotResponse ? outcome.status ?? 'retrying' : 'unknown';
+          console.log(`[${record.id}] Attempt ${attempt} ${gotResponse ? 'failed' : 'got no answer'}. Retrying in ${delayMs}ms...`);
+          update(record.id, asChanges({ status, nextAttemptAt: Date.now() + delayMs }));
+          onRetryScheduled?.(record);
+          await sleep(delayMs);
+          return execute(record, attempt + 1);
+        }
+
+        // Still unknown rather than failed if we never heard back: whoever
+        // resumes it next will retry with the same key.
+        console.error(`[${record.id}] Failed after ${maxAttempts} attempts.`);
+        update(record.id, asChanges({ status: gotResponse ? 'error' : 'unknown' }));
+        if (!gotResponse) onRetryScheduled?.(record);
+      }
+    }
+  };
+
+  // --- Public Actions ---
+  // Persists the record before any request, so it survives the tab closing
+  // mid-flight, then drives it under its lock.
+  const submit = async (build: (idempotencyKey: string) => R): Promise<R> => {
+    const record = build(crypto.randomUUID());
+    setRecords((prev) => [record, ...prev]);
+    channelRef.current?.post({ kind: 'upsert', tx: record });
+    try {
+      await optionsRef.current.store.put([record]);
+    } catch (err) {
+      console.error(`[Mutation] Failed to save ${record.id}`, err);
+    }
+
+    runExclusive(lockName(record.id), () => execute(record));
+    return record;
+  };
+
+  // A fresh round of attempts with the same key. If an earlier attempt did go
+  // through, the server just replays its result.
+  const retry = (record: R) => {
+    update(record.id, { status: 'pending', nextAttemptAt: undefined } as Partial<R>);
+    runExclusive(lockName(record.id), () => execute(record, 1));
+  };
+
+  // Hands records to the resume strategy, one lock each. Every open tab may
+  // try; only one of them drives each record, the others get its updates.
+  const resume = (toResume: R[]) => {
+    toResume.forEach((record) => {
+      runExclusive(lockName(record.id), () => (optionsRef.current.resume ?? execute)(record));
+    });
+  };
+
+  // The load effect runs once, so it reaches `resume` through a ref
+  const resumeRef = useRef(resume);
+  resumeRef.current = resume;
+
+  const clear = () => {
+    publish({ kind: 'clear' });
+    optionsRef.current.store.clear().catch((e) => console.error('[Mutation] Failed to clear', e));
+  };
+
+  // --- EFFECT 0: Listen to Other Tabs ---
+  useEffect(() => {
+    channelRef.current = openTabChannel<MutationMessage<R>>(optionsRef.current.channelName, (message) => {
+      setRecords((prev) => applyMutationMessage(prev, message));
+    });
+    return () => channelRef.current?.close();
+  }, []);
+
+  // --- EFFECT 1: Load & Resume ---
+  // Runs once per mount. `resume` reads the latest options through the ref.
+  useEffect(() => {
+    const hydrate = async () => {
+      try {
+        const saved = await optionsRef.current.store.load();
+        setRecords(saved);
+        const shouldResume = optionsRef.current.shouldResume ?? ((record: R) => isUnfinishedStatus(record.status));
+        resumeRef.current(saved.filter(shouldResume));
+      } catch (e) {
+        console.error('[Mutation] Failed to load records', e);
+      }
+      setIsLoaded(true);
+    };
+    hydrate();
+  }, []);
+
+  return { records, isLoaded, submit, execute, retry, resume, update, upsert, clear };
+};